@@ -0,0 +1,258 @@
+import { readFileSync } from 'node:fs';
+import { readdir, readFile, mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { audioBufferToWav } from '../src/lib/audio-utils';
+import {
+  ARCHIVAL_HEADROOM, BassSettings, LoudnessTarget, masterBitDepth, masterChannels, masterMetadata, PLATFORM_TARGETS,
+} from '../src/lib/mastering-engine';
+import {
+  BUILT_IN_PRESETS, findBuiltInPreset, MONO_FREQUENCY_RANGE, parsePreset, Preset, presetTarget, TARGET_RANGES,
+} from '../src/lib/presets';
+import { matchingCurve, measureSpectrum, Spectrum } from '../src/lib/spectrum';
+import { decodeNative } from '../src/lib/decoder';
+
+const USAGE = `Usage: npm run master -- <input-dir> [options]
+
+Masters every WAV, AIFF and FLAC file in <input-dir> and prints one JSON report per file.
+
+Options:
+  --out <dir>              Output folder (default: <input-dir>/masters)
+  --preset <id|file>       ${BUILT_IN_PRESETS.map(p => p.id).join(' | ')} or a preset .json file (default: youtube_rap)
+  --intensity <0-100>      Processing intensity (default: 50)
+  --impact <value>         Soft | Heavy | Savage (default: from the preset)
+  --punch <value>          Short | Tight | Long (default: from the preset)
+  --weight <value>         Low | Balanced | Deep (default: from the preset)
+  --mono-frequency <Hz>    Mono bass crossover, ${MONO_FREQUENCY_RANGE.min}-${MONO_FREQUENCY_RANGE.max} (default: from the preset)
+  --club-safe              Mono the low end (default: from the preset)
+  --no-club-safe           Keep the low end stereo
+  --phone-safe             Roll off the sub below 40 Hz (default: from the preset)
+  --no-phone-safe          Keep the sub below 40 Hz
+  --humanize               Enable AI artifact humanization
+  --reference <file>       Match each track's tonal balance to this file
+  --match-amount <0-100>   Strength of the reference match (default: 50)
+  --platform <id>          Loudness target: ${PLATFORM_TARGETS.map(p => p.id).join(' | ')}
+  --lufs=<value>           Custom integrated loudness target, ${TARGET_RANGES.lufs.min} to ${TARGET_RANGES.lufs.max}, e.g. --lufs=-14
+  --true-peak=<value>      Custom true-peak ceiling, ${TARGET_RANGES.truePeak.min} to ${TARGET_RANGES.truePeak.max} (default: -1)
+  --tolerance <LU>         Allowed distance from the loudness target, above 0 (default: 1)
+
+Exit codes: 0 all tracks on target, 1 a track failed to process, 2 a track missed its target.`;
+
+const AUDIO_EXTENSIONS = /\.(wav|aiff?|aifc|flac)$/i;
+
+// True-peak overshoot tolerated on the encoded master
+const TRUE_PEAK_TOLERANCE = 0.1;
+
+function oneOf<T extends string>(name: string, value: string | undefined, allowed: readonly T[], fallback: T): T {
+  if (value === undefined) return fallback;
+  if (!allowed.includes(value as T)) throw new Error(`--${name} must be one of ${allowed.join(', ')}`);
+  return value as T;
+}
+
+function loadPreset(value: string): Preset {
+  const builtIn = findBuiltInPreset(value);
+  if (builtIn) return builtIn;
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(value, 'utf8'));
+  } catch {
+    throw new Error(`--preset must be one of ${BUILT_IN_PRESETS.map(p => p.id).join(', ')} or a readable preset file`);
+  }
+  try {
+    return parsePreset(json);
+  } catch (error) {
+    throw new Error(`${value}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// --<name> turns a preset switch on, --no-<name> turns it off
+function switchOption(name: string, on: boolean | undefined, off: boolean | undefined, fallback: boolean): boolean {
+  if (on && off) throw new Error(`--${name} and --no-${name} cannot be combined`);
+  return on ? true : off ? false : fallback;
+}
+
+function numberOption(name: string, value: string | undefined, fallback: number, min = -Infinity, max = Infinity): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed)) throw new Error(`--${name} must be a number`);
+  if (parsed < min || parsed > max) throw new Error(`--${name} must be between ${min} and ${max}`);
+  return parsed;
+}
+
+function parseCli() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string' },
+      preset: { type: 'string', default: 'youtube_rap' },
+      intensity: { type: 'string' },
+      impact: { type: 'string' },
+      punch: { type: 'string' },
+      weight: { type: 'string' },
+      'mono-frequency': { type: 'string' },
+      'club-safe': { type: 'boolean' },
+      'no-club-safe': { type: 'boolean' },
+      'phone-safe': { type: 'boolean' },
+      'no-phone-safe': { type: 'boolean' },
+      humanize: { type: 'boolean', default: false },
+      reference: { type: 'string' },
+      'match-amount': { type: 'string' },
+      platform: { type: 'string' },
+      lufs: { type: 'string' },
+      'true-peak': { type: 'string' },
+      tolerance: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help || positionals.length !== 1) return null;
+
+  const preset = loadPreset(values.preset!);
+  const { bass } = preset;
+  const bassSettings: BassSettings = {
+    ...bass,
+    impact: oneOf('impact', values.impact, ['Soft', 'Heavy', 'Savage'] as const, bass.impact),
+    punch: oneOf('punch', values.punch, ['Short', 'Tight', 'Long'] as const, bass.punch),
+    weight: oneOf('weight', values.weight, ['Low', 'Balanced', 'Deep'] as const, bass.weight),
+    clubSafe: switchOption('club-safe', values['club-safe'], values['no-club-safe'], bass.clubSafe),
+    monoFrequency: numberOption('mono-frequency', values['mono-frequency'], bass.monoFrequency, MONO_FREQUENCY_RANGE.min, MONO_FREQUENCY_RANGE.max),
+    phoneSafe: switchOption('phone-safe', values['phone-safe'], values['no-phone-safe'], bass.phoneSafe),
+  };
+
+  let target: LoudnessTarget = presetTarget(preset);
+  if (values.platform) {
+    const platform = PLATFORM_TARGETS.find(p => p.id === values.platform);
+    if (!platform) throw new Error(`--platform must be one of ${PLATFORM_TARGETS.map(p => p.id).join(', ')}`);
+    target = platform.target;
+  }
+  if (values.lufs !== undefined || values['true-peak'] !== undefined) {
+    target = {
+      lufs: numberOption('lufs', values.lufs, target.lufs, TARGET_RANGES.lufs.min, TARGET_RANGES.lufs.max),
+      truePeak: numberOption('true-peak', values['true-peak'], target.truePeak, TARGET_RANGES.truePeak.min, TARGET_RANGES.truePeak.max),
+    };
+  }
+
+  const tolerance = numberOption('tolerance', values.tolerance, 1);
+  if (tolerance <= 0) throw new Error('--tolerance must be greater than 0');
+
+  const input = positionals[0];
+  return {
+    input,
+    out: values.out ?? path.join(input, 'masters'),
+    settings: { preset, intensity: numberOption('intensity', values.intensity, 50, 0, 100), bassSettings },
+    humanize: values.humanize!,
+    reference: values.reference,
+    matchAmount: numberOption('match-amount', values['match-amount'], 50, 0, 100),
+    target,
+    tolerance,
+  };
+}
+
+async function main(): Promise<number> {
+  let cli: ReturnType<typeof parseCli>;
+  try {
+    cli = parseCli();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(USAGE);
+    return 1;
+  }
+  if (!cli) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const { input, out, settings, humanize, target, tolerance, matchAmount } = cli;
+  let reference: Spectrum | undefined;
+  if (cli.reference) {
+    try {
+      const data = await readFile(cli.reference);
+      const source = decodeNative(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+      if (!source) throw new Error('unsupported format (expected PCM or float WAV, AIFF or FLAC)');
+      reference = measureSpectrum(source.channels, source.sampleRate);
+    } catch (error) {
+      console.error(`Cannot read reference ${cli.reference}: ${error instanceof Error ? error.message : error}`);
+      return 1;
+    }
+  }
+  let files: string[];
+  try {
+    files = (await readdir(input)).filter(name => AUDIO_EXTENSIONS.test(name)).sort();
+  } catch (error) {
+    console.error(`Cannot read input folder ${input}: ${error instanceof Error ? error.message : error}`);
+    return 1;
+  }
+  if (files.length === 0) {
+    console.error(`No WAV, AIFF or FLAC files found in ${input}`);
+    return 1;
+  }
+  try {
+    await mkdir(out, { recursive: true });
+  } catch (error) {
+    console.error(`Cannot create output folder ${out}: ${error instanceof Error ? error.message : error}`);
+    return 1;
+  }
+
+  let failed = false;
+  let missed = false;
+  for (const name of files) {
+    const title = name.replace(/\.[^.]+$/, '');
+    try {
+      const data = await readFile(path.join(input, name));
+      const source = decodeNative(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+      if (!source) throw new Error('Unsupported format (expected PCM or float WAV, AIFF or FLAC)');
+
+      const { sampleRate } = source;
+      const matchEq = reference && matchingCurve(measureSpectrum(source.channels, sampleRate), reference, matchAmount / 100);
+      // Progress goes to stderr and only to a terminal, so stdout stays machine-readable
+      const output = masterChannels(source.channels, sampleRate, settings, { humanize, target, matchEq }, (fraction, stage) => {
+        if (process.stderr.isTTY) process.stderr.write(`\r${name}: ${Math.round(fraction * 100)}% ${stage}`.padEnd(80));
+      });
+      if (process.stderr.isTTY) process.stderr.write('\n');
+
+      const bitDepth = masterBitDepth(settings.preset, source.bitDepth);
+      const metadata = masterMetadata(title, source.metadata, output.loudness.after, settings);
+      const blob = audioBufferToWav({
+        numberOfChannels: output.channels.length,
+        sampleRate,
+        length: output.channels[0].length,
+        getChannelData: ch => output.channels[ch],
+      }, { bitDepth, metadata });
+      const outputPath = path.join(out, `${title}_Master.wav`);
+      await writeFile(outputPath, Buffer.from(await blob.arrayBuffer()));
+
+      // Archival masters may deliberately stay below the target to avoid limiting
+      const { before, after } = output.loudness;
+      const floor = target.lufs - tolerance - (settings.preset.loudness.archival ? ARCHIVAL_HEADROOM : 0);
+      const onTarget = after.integrated >= floor
+        && after.integrated <= target.lufs + tolerance
+        && after.truePeak <= target.truePeak + TRUE_PEAK_TOLERANCE;
+      if (!onTarget) missed = true;
+
+      console.log(JSON.stringify({
+        file: name,
+        output: outputPath,
+        status: onTarget ? 'ok' : 'missed_target',
+        settings: { ...settings, preset: settings.preset.id },
+        target,
+        bitDepth,
+        sampleRate,
+        before: { lufs: before.integrated, truePeak: before.truePeak, lra: before.loudnessRange },
+        after: { lufs: after.integrated, truePeak: after.truePeak, lra: after.loudnessRange },
+        crestFactor: output.crestFactor,
+        gainReduction: { max: output.gainReduction.max, average: output.gainReduction.average },
+        ...output.bandGainReduction.length > 0 && {
+          bandGainReduction: output.bandGainReduction.map(({ low, high, gainReduction }) => ({ low, high, max: gainReduction.max, average: gainReduction.average })),
+        },
+      }));
+    } catch (error) {
+      failed = true;
+      console.log(JSON.stringify({ file: name, status: 'failed', error: error instanceof Error ? error.message : String(error) }));
+    }
+  }
+  return failed ? 1 : missed ? 2 : 0;
+}
+
+main().then(code => { process.exitCode = code; }, error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,188 @@
+import dotenv from 'dotenv';
+import express, { Request, Response } from 'express';
+import { randomUUID } from 'node:crypto';
+import { mkdirSync } from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { GraphicEqBand } from '../src/lib/dsp/graphic-eq';
+import { BassSettings } from '../src/lib/mastering-engine';
+import { BUILT_IN_PRESETS, findBuiltInPreset, parseBassSettings, parsePreset, Preset, PresetError, presetTarget, TARGET_RANGES } from '../src/lib/presets';
+import { detectContainer } from '../src/lib/decoder';
+import { JobQueue, jobPaths } from './job-queue';
+import { JobRequest, JobStore } from './job-store';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const PORT = Number(process.env.PORT ?? 3001);
+const DATA_DIR = path.resolve(process.env.DATA_DIR ?? 'data');
+const CONCURRENCY = Number(process.env.MASTERING_WORKERS ?? Math.max(1, Math.min(4, os.cpus().length - 1)));
+const MAX_UPLOAD = process.env.MAX_UPLOAD ?? '1gb';
+
+class BadRequestError extends Error {}
+
+function oneOf<T extends string>(name: string, value: unknown, allowed: readonly T[], fallback: T): T {
+  if (value === undefined) return fallback;
+  if (!allowed.includes(value as T)) throw new BadRequestError(`${name} must be one of ${allowed.join(', ')}`);
+  return value as T;
+}
+
+function numberParam(name: string, value: unknown, fallback?: number): number | undefined {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (typeof value !== 'string' || !Number.isFinite(parsed)) throw new BadRequestError(`${name} must be a number`);
+  return parsed;
+}
+
+function matchEqParam(value: unknown): GraphicEqBand[] | undefined {
+  if (value === undefined) return undefined;
+  let bands: unknown;
+  try {
+    bands = JSON.parse(String(value));
+  } catch {
+    throw new BadRequestError('matchEq must be JSON');
+  }
+  const valid = Array.isArray(bands) && bands.length <= 64 && bands.every(band =>
+    typeof band?.frequency === 'number' && band.frequency >= 20 && band.frequency <= 20000
+    && typeof band?.gain === 'number' && Math.abs(band.gain) <= 12);
+  if (!valid) throw new BadRequestError('matchEq must be a list of { frequency, gain } bands (20-20000 Hz, ±12 dB)');
+  return (bands as GraphicEqBand[]).map(({ frequency, gain }) => ({ frequency, gain }));
+}
+
+function rangeParam(name: string, value: unknown, min: number, max: number): number | undefined {
+  const parsed = numberParam(name, value);
+  if (parsed !== undefined && (parsed < min || parsed > max)) throw new BadRequestError(`${name} must be between ${min} and ${max}`);
+  return parsed;
+}
+
+const booleanParam = (value: unknown, fallback: boolean) => value === undefined ? fallback : value === 'true' || value === '1';
+
+// A built-in preset id, or a full custom preset document as JSON
+function presetParam(query: Request['query']): Preset {
+  if (query.presetDefinition === undefined) {
+    const id = oneOf('preset', query.preset, BUILT_IN_PRESETS.map(p => p.id), 'youtube_rap');
+    return findBuiltInPreset(id)!;
+  }
+  try {
+    return parsePreset(JSON.parse(String(query.presetDefinition)));
+  } catch (error) {
+    if (error instanceof SyntaxError) throw new BadRequestError('presetDefinition must be JSON');
+    if (error instanceof PresetError) throw new BadRequestError(`presetDefinition: ${error.message}`);
+    throw error;
+  }
+}
+
+// Settings travel in the query string so the body can be the raw audio file
+function parseJobRequest(query: Request['query']): JobRequest {
+  const preset = presetParam(query);
+  // Overrides on top of the preset's bass, held to the same ranges as a preset file
+  let bassSettings: BassSettings;
+  try {
+    bassSettings = parseBassSettings({
+      ...preset.bass,
+      impact: query.impact ?? preset.bass.impact,
+      punch: query.punch ?? preset.bass.punch,
+      weight: query.weight ?? preset.bass.weight,
+      clubSafe: booleanParam(query.clubSafe, preset.bass.clubSafe),
+      monoFrequency: numberParam('monoFrequency', query.monoFrequency, preset.bass.monoFrequency),
+      phoneSafe: booleanParam(query.phoneSafe, preset.bass.phoneSafe),
+      shelfGain: numberParam('bassShelfGain', query.bassShelfGain, preset.bass.shelfGain),
+      lowCut: numberParam('lowCut', query.lowCut, preset.bass.lowCut),
+    });
+  } catch (error) {
+    if (error instanceof PresetError) throw new BadRequestError(error.message);
+    throw error;
+  }
+  const lufs = rangeParam('targetLufs', query.targetLufs, TARGET_RANGES.lufs.min, TARGET_RANGES.lufs.max);
+  const truePeak = rangeParam('targetTruePeak', query.targetTruePeak, TARGET_RANGES.truePeak.min, TARGET_RANGES.truePeak.max);
+  return {
+    settings: {
+      preset,
+      intensity: Math.min(100, Math.max(0, numberParam('intensity', query.intensity, 50)!)),
+      bassSettings,
+    },
+    options: {
+      humanize: booleanParam(query.humanize, false),
+      target: lufs !== undefined || truePeak !== undefined
+        ? { lufs: lufs ?? presetTarget(preset).lufs, truePeak: truePeak ?? presetTarget(preset).truePeak }
+        : undefined,
+      limiterRelease: rangeParam('limiterRelease', query.limiterRelease, 10, 1000),
+      matchEq: matchEqParam(query.matchEq),
+    },
+  };
+}
+
+mkdirSync(DATA_DIR, { recursive: true });
+const store = new JobStore(path.join(DATA_DIR, 'jobs.db'));
+const queue = new JobQueue(store, DATA_DIR, CONCURRENCY);
+const app = express();
+
+app.post('/api/jobs', express.raw({ type: () => true, limit: MAX_UPLOAD }), async (req: Request, res: Response) => {
+  try {
+    const request = parseJobRequest(req.query);
+    const body = req.body as Buffer;
+    if (!Buffer.isBuffer(body) || !detectContainer(body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength))) {
+      throw new BadRequestError('Request body must be a WAV, AIFF or FLAC file');
+    }
+    const name = typeof req.query.name === 'string' ? path.basename(req.query.name) : 'track.wav';
+
+    // The row goes in only once the upload is on disk, so a free worker can't claim a job without its input
+    const id = randomUUID();
+    const paths = await queue.createJobDir(id);
+    try {
+      await writeFile(paths.input, body);
+      store.create(id, name, request);
+    } catch (error) {
+      await queue.removeJobDir(id);
+      throw error;
+    }
+    queue.pump();
+    res.status(201).json(store.get(id));
+  } catch (error) {
+    if (error instanceof BadRequestError) {
+      res.status(400).json({ error: error.message });
+    } else {
+      console.error('Failed to create job', error);
+      res.status(500).json({ error: 'Failed to create job' });
+    }
+  }
+});
+
+app.get('/api/jobs', (_req, res) => {
+  res.json(store.list());
+});
+
+app.get('/api/jobs/:id', (req, res) => {
+  const job = store.get(req.params.id);
+  if (!job) return void res.status(404).json({ error: 'Job not found' });
+  res.json(job);
+});
+
+app.delete('/api/jobs/:id', async (req, res) => {
+  if (!await queue.cancel(req.params.id)) return void res.status(409).json({ error: 'Job is not queued or running' });
+  res.json(store.get(req.params.id));
+});
+
+// Downloads only exist once the job is done
+function sendResult(kind: 'master' | 'report') {
+  return (req: Request, res: Response) => {
+    const job = store.get(req.params.id);
+    if (!job) return void res.status(404).json({ error: 'Job not found' });
+    if (job.status !== 'done') return void res.status(409).json({ error: `Job is ${job.status}` });
+
+    const paths = jobPaths(DATA_DIR, job.id);
+    if (kind === 'master') {
+      res.download(paths.master, `${job.name.replace(/\.[^.]+$/, '')}_Master.wav`);
+    } else {
+      res.type('application/json').sendFile(paths.report);
+    }
+  };
+}
+
+app.get('/api/jobs/:id/master', sendResult('master'));
+app.get('/api/jobs/:id/analysis', sendResult('report'));
+
+app.listen(PORT, () => {
+  console.log(`Mastering server listening on http://localhost:${PORT} (${CONCURRENCY} worker${CONCURRENCY === 1 ? '' : 's'})`);
+  queue.pump();
+});
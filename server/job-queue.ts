@@ -0,0 +1,101 @@
+import { mkdir, rm } from 'node:fs/promises';
+import path from 'node:path';
+import { Worker } from 'node:worker_threads';
+import { Job, JobStore } from './job-store';
+import type { ThreadInput, ThreadMessage } from './mastering-thread';
+
+// The server runs under tsx, whose loader threads don't inherit: register it, then load the thread
+const THREAD_BOOTSTRAP = `import('tsx/esm/api')
+  .then(api => api.register())
+  .then(() => import(${JSON.stringify(new URL('./mastering-thread.ts', import.meta.url).href)}))`;
+
+export function jobPaths(dataDir: string, id: string) {
+  const dir = path.join(dataDir, 'jobs', id);
+  return {
+    dir,
+    input: path.join(dir, 'input.wav'),
+    master: path.join(dir, 'master.wav'),
+    report: path.join(dir, 'report.json'),
+  };
+}
+
+/**
+ * Runs queued jobs on worker threads, up to `concurrency` at a time, and
+ * mirrors their progress into the job store.
+ */
+export class JobQueue {
+  private running = new Map<string, Worker>();
+
+  constructor(private store: JobStore, private dataDir: string, private concurrency: number) {}
+
+  async createJobDir(id: string): Promise<ReturnType<typeof jobPaths>> {
+    const paths = jobPaths(this.dataDir, id);
+    await mkdir(paths.dir, { recursive: true });
+    return paths;
+  }
+
+  async removeJobDir(id: string) {
+    await rm(jobPaths(this.dataDir, id).dir, { recursive: true, force: true });
+  }
+
+  // Starts as many queued jobs as there are free slots
+  pump() {
+    while (this.running.size < this.concurrency) {
+      const job = this.store.claimNext();
+      if (!job) return;
+      this.start(job);
+    }
+  }
+
+  private start(job: Job) {
+    const paths = jobPaths(this.dataDir, job.id);
+    const workerData: ThreadInput = {
+      inputPath: paths.input,
+      masterPath: paths.master,
+      reportPath: paths.report,
+      title: job.name.replace(/\.[^.]+$/, ''),
+      settings: job.settings,
+      options: job.options,
+    };
+    const worker = new Worker(THREAD_BOOTSTRAP, { eval: true, workerData });
+    this.running.set(job.id, worker);
+
+    let settled = false;
+    const settle = (status: 'done' | 'failed', error: string | null = null) => {
+      if (settled) return;
+      settled = true;
+      this.running.delete(job.id);
+      this.store.finish(job.id, status, error);
+      worker.terminate();
+      this.pump();
+    };
+
+    worker.on('message', (message: ThreadMessage) => {
+      if (message.type === 'progress') {
+        this.store.updateProgress(job.id, Math.round(message.fraction * 100), message.stage);
+      } else if (message.type === 'done') {
+        settle('done');
+      } else {
+        settle('failed', message.message);
+      }
+    });
+    worker.on('error', error => settle('failed', error.message));
+    worker.on('exit', code => settle('failed', `Mastering thread exited with code ${code}`));
+  }
+
+  async cancel(id: string): Promise<boolean> {
+    const job = this.store.get(id);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return false;
+
+    const worker = this.running.get(id);
+    if (worker) {
+      this.running.delete(id);
+      worker.removeAllListeners();
+      await worker.terminate();
+    }
+    this.store.finish(id, 'cancelled');
+    await this.removeJobDir(id);
+    this.pump();
+    return true;
+  }
+}
@@ -0,0 +1,114 @@
+import Database from 'better-sqlite3';
+import { EngineOptions, MasteringSettings } from '../src/lib/mastering-engine';
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface JobRequest {
+  settings: MasteringSettings;
+  options: EngineOptions;
+}
+
+export interface Job extends JobRequest {
+  id: string;
+  name: string; // Original file name
+  status: JobStatus;
+  progress: number; // 0 to 100
+  stage: string;
+  error: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+interface JobRow {
+  id: string;
+  name: string;
+  status: JobStatus;
+  progress: number;
+  stage: string;
+  error: string | null;
+  request: string;
+  created_at: string;
+  finished_at: string | null;
+}
+
+const toJob = (row: JobRow): Job => ({
+  id: row.id,
+  name: row.name,
+  status: row.status,
+  progress: row.progress,
+  stage: row.stage,
+  error: row.error,
+  createdAt: row.created_at,
+  finishedAt: row.finished_at,
+  ...JSON.parse(row.request) as JobRequest,
+});
+
+/**
+ * SQLite-backed mastering job table. Audio lives on disk next to the database;
+ * rows only hold the request, status and progress.
+ */
+export class JobStore {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        status TEXT NOT NULL,
+        progress REAL NOT NULL DEFAULT 0,
+        stage TEXT NOT NULL DEFAULT '',
+        error TEXT,
+        request TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        finished_at TEXT
+      );
+      CREATE INDEX IF NOT EXISTS jobs_status ON jobs (status, created_at);
+    `);
+    // Jobs interrupted by a restart go back to the queue
+    this.db.prepare(`UPDATE jobs SET status = 'queued', progress = 0, stage = '' WHERE status = 'running'`).run();
+  }
+
+  create(id: string, name: string, request: JobRequest): Job {
+    this.db.prepare(`
+      INSERT INTO jobs (id, name, status, request, created_at)
+      VALUES (?, ?, 'queued', ?, ?)
+    `).run(id, name, JSON.stringify(request), new Date().toISOString());
+    return this.get(id)!;
+  }
+
+  get(id: string): Job | null {
+    const row = this.db.prepare(`SELECT * FROM jobs WHERE id = ?`).get(id) as JobRow | undefined;
+    return row ? toJob(row) : null;
+  }
+
+  list(limit = 100): Job[] {
+    const rows = this.db.prepare(`SELECT * FROM jobs ORDER BY created_at DESC LIMIT ?`).all(limit) as JobRow[];
+    return rows.map(toJob);
+  }
+
+  // Claims the oldest queued job, or returns null when the queue is empty
+  claimNext(): Job | null {
+    const row = this.db.prepare(`
+      UPDATE jobs SET status = 'running', stage = 'Starting'
+      WHERE id = (SELECT id FROM jobs WHERE status = 'queued' ORDER BY created_at LIMIT 1)
+      RETURNING *
+    `).get() as JobRow | undefined;
+    return row ? toJob(row) : null;
+  }
+
+  updateProgress(id: string, progress: number, stage: string) {
+    this.db.prepare(`UPDATE jobs SET progress = ?, stage = ? WHERE id = ? AND status = 'running'`).run(progress, stage, id);
+  }
+
+  finish(id: string, status: Exclude<JobStatus, 'queued' | 'running'>, error: string | null = null) {
+    this.db.prepare(`
+      UPDATE jobs SET status = @status, error = @error, finished_at = @finishedAt,
+        progress = CASE WHEN @status = 'done' THEN 100 ELSE progress END,
+        stage = CASE WHEN @status = 'done' THEN 'Done' ELSE stage END
+      WHERE id = @id
+    `).run({ id, status, error, finishedAt: new Date().toISOString() });
+  }
+}
@@ -0,0 +1,51 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { parentPort, workerData } from 'node:worker_threads';
+import { audioBufferToWav } from '../src/lib/audio-utils';
+import { masterBitDepth, masterChannels, masterMetadata, MasteringReport } from '../src/lib/mastering-engine';
+import { decodeNative } from '../src/lib/decoder';
+import { JobRequest } from './job-store';
+
+export interface ThreadInput extends JobRequest {
+  inputPath: string;
+  masterPath: string;
+  reportPath: string;
+  title: string;
+}
+
+export type ThreadMessage =
+  | { type: 'progress'; fraction: number; stage: string }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+const post = (message: ThreadMessage) => parentPort!.postMessage(message);
+
+// Same chain as the browser worker: decode, master, encode with metadata, plus a JSON report
+async function run({ inputPath, masterPath, reportPath, title, settings, options }: ThreadInput) {
+  const data = await readFile(inputPath);
+  const source = decodeNative(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+  if (!source) throw new Error('Unsupported input: expected a PCM or float WAV, AIFF or FLAC file');
+
+  const { sampleRate } = source;
+  const { channels, ...output } = masterChannels(source.channels, sampleRate, settings, options, (fraction, stage) => {
+    post({ type: 'progress', fraction: fraction * 0.95, stage });
+  });
+  post({ type: 'progress', fraction: 0.95, stage: 'Encoding' });
+
+  const bitDepth = masterBitDepth(settings.preset, source.bitDepth);
+  const metadata = masterMetadata(title, source.metadata, output.loudness.after, settings);
+  const blob = audioBufferToWav({
+    numberOfChannels: channels.length,
+    sampleRate,
+    length: channels[0].length,
+    getChannelData: ch => channels[ch],
+  }, { bitDepth, metadata });
+  await writeFile(masterPath, Buffer.from(await blob.arrayBuffer()));
+
+  const report: MasteringReport = { ...output, settings, options, sampleRate, bitDepth, metadata };
+  await writeFile(reportPath, JSON.stringify(report, null, 2));
+}
+
+run(workerData as ThreadInput).then(
+  () => post({ type: 'done' }),
+  error => post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+);
@@ -1,33 +1,160 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Upload, Settings, Play, Download, Activity, Sliders, CheckCircle2, Loader2, Music, Pause, ShieldCheck, Smartphone, Speaker, Car, Mic2, Radio, Zap, FileAudio, Cpu, Waves, BarChart3 } from 'lucide-react';
-import { processAudio, Preset, analyzeAudio, AudioAnalysis, BassSettings } from './lib/audio-processor';
+import { Upload, Settings, Play, Download, Activity, Sliders, CheckCircle2, Loader2, Music, Pause, ShieldCheck, Smartphone, Speaker, Car, Mic2, Radio, Zap, FileAudio, Cpu, Waves, BarChart3, History, Copy, Pencil, Trash2, FileUp, Wand2, Target, X, EyeOff, Scale, Sparkles, AlertCircle, LucideIcon } from 'lucide-react';
+import { encodeWav, EXPORT_FORMATS } from './lib/audio-utils';
+import SessionHistory from './components/SessionHistory';
+import PresetEditor from './components/PresetEditor';
+import TrackSettings from './components/TrackSettings';
+import SpectrumMatch from './components/SpectrumMatch';
+import WaveformPlayer from './components/WaveformPlayer';
+import BlindTest from './components/BlindTest';
+import MasteringAssistant from './components/MasteringAssistant';
+import { MasteringSuggestion } from './lib/assistant';
+import { createAssistant } from './lib/gemini-assistant';
+import { ABPlayer, ABTrack } from './lib/ab-player';
+import { createSession, hashFile, loadSession, MasterRecord, saveListeningResult, saveMaster, saveTrack } from './lib/session-store';
+import { BlindSlot, BlindTrial, ListeningResult, loudnessMatch, newBlindTrial, summarizeResults } from './lib/listening-test';
+import { BUILT_IN_PRESETS, clampTarget, presetTarget, TARGET_RANGES } from './lib/presets';
+import { exportPresetFile, importPresetFile, loadCustomPresets, newPresetId, saveCustomPresets } from './lib/preset-store';
+import { hasOverrides, resolveTrackSettings, TrackOverrides } from './lib/track-settings';
+import { matchingCurve, Spectrum } from './lib/spectrum';
+import { BatchTrack, createBatchZip, SkippedTrack } from './lib/batch-report';
+import { CheckStatus, measureDeliverableStats, SPEC_PROFILES, validateDeliverable, ValidationResult } from './lib/deliverable-check';
+import { getChannels } from './lib/loudness';
+import { analyzeReference, decodeAudioFile, decodeMaster, processAudio, processOnServer, Preset, analyzeAudio, AudioAnalysis, BassSettings, EngineOptions, MasteringSettings, ProcessResult, LoudnessTarget, PLATFORM_TARGETS } from './lib/audio-processor';
 
 type AppState = 'idle' | 'analyzing' | 'ready' | 'processing' | 'done';
 
+interface TrackResult {
+  originalBuffer: AudioBuffer;
+  processedWav: Blob; // As rendered, before any export format is applied
+  processedBuffer: AudioBuffer;
+  settings: MasteringSettings;
+  options: EngineOptions;
+  crestFactor: ProcessResult['crestFactor'];
+  loudness: ProcessResult['loudness'];
+  dynamics: ProcessResult['dynamics'];
+  gainReduction: ProcessResult['gainReduction'];
+  bandGainReduction: ProcessResult['bandGainReduction'];
+  deliverable: ProcessResult['deliverable'];
+  bitDepth: ProcessResult['bitDepth'];
+  metadata: ProcessResult['metadata'];
+  listening: ListeningResult[]; // Blind test results for this master
+  versionId?: number; // Saved master this result was loaded from or stored as
+}
+
+// Why a track in the queue has no master: it couldn't be decoded, or mastering it failed
+interface TrackError {
+  stage: 'decode' | 'master';
+  message: string;
+}
+
+// Rebuilds a playable result from a master saved in the session history
+async function resultFromRecord(original: File, record: MasterRecord): Promise<TrackResult> {
+  const processedBuffer = await decodeMaster(record.wav);
+  return {
+    originalBuffer: await decodeAudioFile(original),
+    processedWav: record.wav,
+    processedBuffer,
+    settings: record.settings,
+    options: record.options,
+    ...record.report,
+    bandGainReduction: record.report.bandGainReduction ?? [], // Saved before the multiband stage
+    // Saved before the spec checks; one pass over the samples, unlike the loudness
+    deliverable: record.report.deliverable ?? measureDeliverableStats(getChannels(processedBuffer), processedBuffer.sampleRate),
+    listening: record.listening ?? [],
+    versionId: record.id,
+  };
+}
+
+const PRESET_ICONS: Record<string, LucideIcon> = {
+  youtube_rap: Radio,
+  club_bass: Speaker,
+  tiktok_trap: Smartphone,
+  high_res: Waves,
+};
+
+// Extensions as well as the MIME family, since browsers often leave AIFF and FLAC untyped
+const AUDIO_ACCEPT = 'audio/*,.wav,.aif,.aiff,.aifc,.flac';
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+}
+
+const STATUS_BADGE: Record<CheckStatus, string> = {
+  pass: 'text-emerald-400 border-emerald-500/30',
+  warn: 'text-yellow-400 border-yellow-500/30',
+  fail: 'text-red-400 border-red-500/30',
+};
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+const formatDb = (value: number) => Number.isFinite(value) ? value.toFixed(1) : '-∞';
+const formatFrequency = (hz: number) => hz >= 1000 ? `${+(hz / 1000).toFixed(1)}k` : `${Math.round(hz)}`;
+
 export default function App() {
   const [files, setFiles] = useState<File[]>([]);
   const [selectedFileIndex, setSelectedFileIndex] = useState<number>(0);
   const [status, setStatus] = useState<AppState>('idle');
   const [analyses, setAnalyses] = useState<Record<string, AudioAnalysis>>({});
+  const [trackErrors, setTrackErrors] = useState<Record<string, TrackError>>({});
   
-  const [preset, setPreset] = useState<Preset>('youtube_rap');
+  const [preset, setPreset] = useState<Preset>(BUILT_IN_PRESETS[0]);
+  const [customPresets, setCustomPresets] = useState<Preset[]>(loadCustomPresets);
+  const [editingPreset, setEditingPreset] = useState<Preset | null>(null);
+  const [presetError, setPresetError] = useState<string | null>(null);
   const [intensity, setIntensity] = useState<number>(50);
+  const [assistant] = useState(createAssistant);
   const [aiHumanization, setAiHumanization] = useState(true);
+  const [targetMode, setTargetMode] = useState<string>('preset');
+  const [customTarget, setCustomTarget] = useState<LoudnessTarget>({ lufs: -14, truePeak: -1 });
+  const [limiterRelease, setLimiterRelease] = useState<number | null>(null);
   
   const [bassSettings, setBassSettings] = useState<BassSettings>({
     impact: 'Heavy',
     punch: 'Tight',
     weight: 'Deep',
     clubSafe: true,
+    monoFrequency: 120,
     phoneSafe: true
   });
 
-  const [progress, setProgress] = useState({ current: 0, total: 0, currentFileProgress: 0, stage: '' });
-  const [results, setResults] = useState<Record<string, { originalUrl: string, processedUrl: string }>>({});
+  const [trackOverrides, setTrackOverrides] = useState<Record<string, TrackOverrides>>({});
+  const [autoAdapt, setAutoAdapt] = useState(false);
+  const [reference, setReference] = useState<{ name: string; spectrum: Spectrum } | null>(null);
+  const [referenceLoading, setReferenceLoading] = useState(false);
+  const [referenceError, setReferenceError] = useState<string | null>(null);
+  const [matchAmount, setMatchAmount] = useState<number>(50);
+
+  const [progress, setProgress] = useState<Record<string, { progress: number; stage: string }>>({});
+  const [results, setResults] = useState<Record<string, TrackResult>>({});
   
+  const [exportFormat, setExportFormat] = useState<string>('preset');
+  const [exportRate, setExportRate] = useState<number | null>(null);
+  const [embedMetadata, setEmbedMetadata] = useState(true);
+  const [zipping, setZipping] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [specProfileId, setSpecProfileId] = useState<string>('none');
+  const [blockFailedExport, setBlockFailedExport] = useState(false);
+  const [useServer, setUseServer] = useState(false);
+
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [fileHashes, setFileHashes] = useState<Record<string, string>>({});
+  const [versions, setVersions] = useState<Record<string, MasterRecord[]>>({});
+  const [showHistory, setShowHistory] = useState(false);
+  const [clampReports, setClampReports] = useState<Record<string, number>>({});
+
   const [isPlaying, setIsPlaying] = useState(false);
-  const [activeTrack, setActiveTrack] = useState<'original' | 'processed'>('processed');
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [activeTrack, setActiveTrack] = useState<ABTrack>('processed');
+  const [player] = useState(() => new ABPlayer());
+  const [levelMatch, setLevelMatch] = useState(false);
+  const [blindTrial, setBlindTrial] = useState<BlindTrial | null>(null);
+  const [blindSlot, setBlindSlot] = useState<BlindSlot | 'X'>('A');
+  const [blindReveal, setBlindReveal] = useState<{ trial: BlindTrial; result: ListeningResult } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const handleFileDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -42,97 +169,407 @@ export default function App() {
     }
   };
 
+  // Every file is tried: the MIME type is often empty for AIFF and FLAC, and the decoder knows better
   const handleFiles = async (newFiles: File[]) => {
-    const audioFiles = newFiles.filter(f => f.type.startsWith('audio/'));
-    if (audioFiles.length === 0) return;
+    if (newFiles.length === 0) return;
     
-    setFiles(audioFiles);
+    setFiles(newFiles);
     setStatus('analyzing');
     setSelectedFileIndex(0);
+    setTrackErrors({});
     
     const newAnalyses: Record<string, AudioAnalysis> = {};
-    for (const file of audioFiles) {
+    const newErrors: Record<string, TrackError> = {};
+    for (const file of newFiles) {
       try {
         newAnalyses[file.name] = await analyzeAudio(file);
       } catch (e) {
-        console.error("Analysis failed for", file.name);
+        newErrors[file.name] = { stage: 'decode', message: errorMessage(e) };
       }
     }
     setAnalyses(newAnalyses);
+    setTrackErrors(newErrors);
     setStatus('ready');
+    setResults({});
+    setVersions({});
+    setTrackOverrides({});
+
+    // Save the session so it survives a refresh; history is best-effort
+    const audioFiles = newFiles.filter(f => !newErrors[f.name]);
+    if (audioFiles.length === 0) return;
+    try {
+      const session = await createSession(audioFiles.length > 1 ? `${audioFiles[0].name} +${audioFiles.length - 1}` : audioFiles[0].name);
+      const hashes: Record<string, string> = {};
+      for (const file of audioFiles) {
+        hashes[file.name] = await hashFile(file);
+        await saveTrack({ sessionId: session.id, hash: hashes[file.name], name: file.name, file, analysis: newAnalyses[file.name] ?? null });
+      }
+      setSessionId(session.id);
+      setFileHashes(hashes);
+    } catch (e) {
+      console.error('Could not save session', e);
+    }
   };
 
+  const openSession = async (id: string) => {
+    setShowHistory(false);
+    const saved = await loadSession(id);
+    if (!saved || saved.tracks.length === 0) return;
+
+    const sessionFiles = saved.tracks.map(t => new File([t.file], t.name, { type: t.file.type }));
+    const byHash = Object.fromEntries(saved.tracks.map((t, i) => [t.hash, sessionFiles[i]]));
+    const sessionVersions: Record<string, MasterRecord[]> = {};
+    for (const master of saved.masters) {
+      const file = byHash[master.trackHash];
+      if (file) (sessionVersions[file.name] ??= []).push(master);
+    }
+
+    const sessionResults: Record<string, TrackResult> = {};
+    for (const file of sessionFiles) {
+      const latest = sessionVersions[file.name]?.at(-1);
+      if (latest) sessionResults[file.name] = await resultFromRecord(file, latest);
+    }
+
+    // Restore the profile of the most recent master so a re-render starts from it
+    const last = saved.masters.at(-1);
+    if (last) {
+      setPreset(last.settings.preset);
+      setIntensity(last.settings.intensity);
+      setBassSettings(last.settings.bassSettings);
+      setAiHumanization(!!last.options.humanize);
+      setLimiterRelease(last.options.limiterRelease ?? null);
+      const target = last.options.target;
+      const matches = (t: LoudnessTarget) => target && t.lufs === target.lufs && t.truePeak === target.truePeak;
+      if (!target || matches(presetTarget(last.settings.preset))) {
+        setTargetMode('preset');
+      } else {
+        const platform = PLATFORM_TARGETS.find(p => matches(p.target));
+        setTargetMode(platform?.id ?? 'custom');
+        if (!platform) setCustomTarget(target);
+      }
+    }
+
+    setFiles(sessionFiles);
+    setAnalyses(Object.fromEntries(saved.tracks.filter(t => t.analysis).map(t => [t.name, t.analysis!])));
+    setFileHashes(Object.fromEntries(saved.tracks.map(t => [t.name, t.hash])));
+    setVersions(sessionVersions);
+    setResults(sessionResults);
+    setTrackErrors({});
+    setTrackOverrides({});
+    setClampReports({});
+    setSelectedFileIndex(0);
+    setSessionId(saved.session.id);
+    setStatus(Object.keys(sessionResults).length > 0 ? 'done' : 'ready');
+  };
+
+  const handleReferenceInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setReferenceLoading(true);
+    setReferenceError(null);
+    try {
+      setReference({ name: file.name, spectrum: await analyzeReference(file) });
+    } catch (error) {
+      console.error('Reference analysis failed', error);
+      setReferenceError(`Could not read ${file.name}`);
+    } finally {
+      setReferenceLoading(false);
+    }
+  };
+
+  const showVersion = async (file: File, record: MasterRecord) => {
+    const result = await resultFromRecord(file, record);
+    setResults(prev => ({ ...prev, [file.name]: result }));
+  };
+
+  const selectPreset = (p: Preset) => {
+    setPreset(p);
+    setBassSettings(p.bass);
+  };
+
+  const acceptSuggestion = (suggestion: MasteringSuggestion) => {
+    setPreset(suggestion.preset);
+    setIntensity(suggestion.intensity);
+    setBassSettings(suggestion.bassSettings);
+  };
+
+  const storePreset = (p: Preset) => {
+    const next = customPresets.some(c => c.id === p.id) ? customPresets.map(c => c.id === p.id ? p : c) : [...customPresets, p];
+    setCustomPresets(next);
+    saveCustomPresets(next);
+    selectPreset(p);
+  };
+
+  const deletePreset = (p: Preset) => {
+    const next = customPresets.filter(c => c.id !== p.id);
+    setCustomPresets(next);
+    saveCustomPresets(next);
+    if (preset.id === p.id) selectPreset(BUILT_IN_PRESETS[0]);
+  };
+
+  const handlePresetImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      storePreset(await importPresetFile(file, customPresets));
+      setPresetError(null);
+    } catch (error) {
+      setPresetError(errorMessage(error));
+    }
+  };
+
+  // A preset restored from history may no longer be in the library
+  const presetLibrary = [...BUILT_IN_PRESETS, ...customPresets];
+  if (!presetLibrary.some(p => p.id === preset.id)) presetLibrary.push(preset);
+
+  const targetFor = (p: Preset): LoudnessTarget => targetMode === 'preset'
+    ? presetTarget(p)
+    : targetMode === 'custom'
+      ? clampTarget(customTarget)
+      : PLATFORM_TARGETS.find(t => t.id === targetMode)?.target ?? presetTarget(p);
+  const loudnessTarget = targetFor(preset);
+
+  // Global profile, then auto-adapt, then the track's own overrides
+  const globalSettings: MasteringSettings = { preset, intensity, bassSettings };
+  const settingsFor = (file: File) => resolveTrackSettings(globalSettings, trackOverrides[file.name], analyses[file.name], autoAdapt);
+
+  const overallProgress = files.length
+    ? files.reduce((sum, f) => sum + (results[f.name] || trackErrors[f.name] ? 100 : progress[f.name]?.progress ?? 0), 0) / files.length
+    : 0;
+
   const handleProcess = async () => {
-    if (files.length === 0) return;
+    // Files that can't be decoded stay in the queue with their error; the rest are (re)mastered
+    const masterable = files.filter(f => trackErrors[f.name]?.stage !== 'decode');
+    if (masterable.length === 0) return;
     setStatus('processing');
-    setProgress({ current: 0, total: files.length, currentFileProgress: 0, stage: 'Initializing...' });
+    setProgress({});
+    setResults({});
+    setTrackErrors(prev => Object.fromEntries(Object.entries(prev).filter(([, error]: [string, TrackError]) => error.stage === 'decode')));
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let completed = 0;
 
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
+    // All tracks are submitted at once; the worker pool (or the server queue) decides how many run in parallel
+    const master = useServer ? processOnServer : processAudio;
+    await Promise.all(masterable.map(async file => {
       try {
-        const { processedWav } = await processAudio(file, preset, intensity, bassSettings, (p, stage) => {
-          setProgress({ current: i, total: files.length, currentFileProgress: p, stage });
-        });
+        const { settings } = settingsFor(file);
+        const spectrum = analyses[file.name]?.spectrum;
+        const engineOptions = {
+          humanize: aiHumanization,
+          target: targetFor(settings.preset),
+          limiterRelease: limiterRelease ?? undefined,
+          matchEq: reference && spectrum && matchAmount > 0 ? matchingCurve(spectrum, reference.spectrum, matchAmount / 100) : undefined,
+        };
+        const { originalBuffer, processedWav, processedBuffer, crestFactor, loudness, dynamics, gainReduction, bandGainReduction, deliverable, bitDepth, metadata } = await master(file, settings.preset, settings.intensity, settings.bassSettings, (p, stage) => {
+          setProgress(prev => ({ ...prev, [file.name]: { progress: p, stage } }));
+        }, { ...engineOptions, signal: controller.signal });
+
+        let versionId: number | undefined;
+        if (sessionId && fileHashes[file.name]) {
+          try {
+            const record = await saveMaster({
+              sessionId,
+              trackHash: fileHashes[file.name],
+              settings,
+              options: engineOptions,
+              wav: processedWav,
+              report: { crestFactor, loudness, dynamics, gainReduction, bandGainReduction, deliverable, bitDepth, metadata },
+            });
+            versionId = record.id;
+            setVersions(prev => ({ ...prev, [file.name]: [...(prev[file.name] ?? []), record] }));
+          } catch (e) {
+            console.error('Could not save master', e);
+          }
+        }
         
         setResults(prev => ({
           ...prev,
           [file.name]: {
-            originalUrl: URL.createObjectURL(file),
-            processedUrl: URL.createObjectURL(processedWav)
+            originalBuffer,
+            processedWav,
+            processedBuffer,
+            settings,
+            options: engineOptions,
+            crestFactor,
+            loudness,
+            dynamics,
+            gainReduction,
+            bandGainReduction,
+            deliverable,
+            bitDepth,
+            metadata,
+            listening: [],
+            versionId
           }
         }));
+        completed++;
       } catch (error) {
-        console.error(`Processing failed for ${file.name}`, error);
+        if (!controller.signal.aborted) {
+          setTrackErrors(prev => ({ ...prev, [file.name]: { stage: 'master', message: errorMessage(error) } }));
+        }
       }
-    }
+    }));
     
-    setStatus('done');
+    abortRef.current = null;
+    // A batch cancelled before anything finished can be started again
+    setStatus(controller.signal.aborted && completed === 0 ? 'ready' : 'done');
   };
 
-  const togglePlayback = () => {
-    if (!audioRef.current) return;
-    if (isPlaying) {
-      audioRef.current.pause();
-    } else {
-      audioRef.current.play();
-    }
-    setIsPlaying(!isPlaying);
+  const exportFormatOf = (result: TrackResult) => {
+    const format = EXPORT_FORMATS.find(f => f.id === exportFormat);
+    return {
+      options: format?.options ?? { bitDepth: result.bitDepth },
+      bitDepth: format?.options.bitDepth ?? result.bitDepth,
+      sampleRate: exportRate ?? result.processedBuffer.sampleRate,
+      asRendered: !format && !exportRate && embedMetadata,
+    };
   };
 
-  const previousTrackRef = useRef<number>(selectedFileIndex);
+  // The master in the chosen export format; the rendered WAV as is when nothing changes
+  const exportMaster = (filename: string, result: TrackResult) => {
+    const { options, bitDepth, sampleRate, asRendered } = exportFormatOf(result);
+    if (asRendered) return { blob: result.processedWav, bitDepth, sampleRate, clippedSamples: null };
+    const { blob, clippedSamples } = encodeWav(result.processedBuffer, {
+      ...options,
+      sampleRate: exportRate ?? undefined,
+      metadata: embedMetadata ? result.metadata : undefined,
+    });
+    setClampReports(prev => ({ ...prev, [filename]: clippedSamples }));
+    return { blob, bitDepth, sampleRate, clippedSamples };
+  };
 
-  useEffect(() => {
-    const selectedResult = files[selectedFileIndex] ? results[files[selectedFileIndex].name] : null;
-    
-    if (audioRef.current && selectedResult) {
-      const targetUrl = activeTrack === 'original' ? selectedResult.originalUrl : selectedResult.processedUrl;
-      
-      if (audioRef.current.src !== targetUrl) {
-        const isTrackChange = previousTrackRef.current !== selectedFileIndex;
-        previousTrackRef.current = selectedFileIndex;
-
-        const wasPlaying = !audioRef.current.paused && !audioRef.current.ended;
-        const currentTime = isTrackChange ? 0 : audioRef.current.currentTime;
-        
-        audioRef.current.src = targetUrl;
-        audioRef.current.load();
-        
-        audioRef.current.oncanplay = () => {
-          if (audioRef.current) {
-            audioRef.current.currentTime = currentTime;
-            if (wasPlaying) {
-              audioRef.current.play().catch(console.error);
-            }
-          }
-          if (audioRef.current) audioRef.current.oncanplay = null;
+  const specProfile = SPEC_PROFILES.find(p => p.id === specProfileId) ?? null;
+
+  // Null when no spec is selected or the track has no master
+  const validationOf = (filename: string): ValidationResult | null => {
+    const result = results[filename];
+    if (!specProfile || !result) return null;
+    return validateDeliverable({ ...result.deliverable, loudness: result.loudness.after }, exportFormatOf(result), specProfile);
+  };
+
+  // With blocking on, a master that fails the spec can't be exported
+  const exportBlocked = (filename: string) => {
+    if (!blockFailedExport) return false;
+    return validationOf(filename)?.status === 'fail';
+  };
+  const masteredFiles = files.filter(f => results[f.name]);
+  const blockedCount = masteredFiles.filter(f => exportBlocked(f.name)).length;
+
+  const downloadMaster = (filename: string, result: TrackResult) => {
+    if (exportBlocked(filename)) return;
+    downloadBlob(exportMaster(filename, result).blob, `${filename.split('.')[0]}_Master.wav`);
+  };
+
+  // One ZIP with every master and the batch report, instead of a download per file.
+  // Blocked masters are left out and listed in the report.
+  const downloadAll = async () => {
+    if (blockedCount === masteredFiles.length) return;
+    setZipping(true);
+    setExportError(null);
+    try {
+      // Let the button show its spinner before the encoders block the thread
+      await new Promise(resolve => setTimeout(resolve));
+      const tracks: BatchTrack[] = masteredFiles.filter(f => !exportBlocked(f.name)).map(file => {
+        const result = results[file.name];
+        const { settings, options, crestFactor, loudness, dynamics, gainReduction, bandGainReduction } = result;
+        return {
+          source: file.name, settings, options, crestFactor, loudness, dynamics, gainReduction, bandGainReduction,
+          ...exportMaster(file.name, result),
+          validation: validationOf(file.name),
         };
-      }
+      });
+      const skipped: SkippedTrack[] = masteredFiles.filter(f => exportBlocked(f.name)).map(f => ({ source: f.name, validation: validationOf(f.name)! }));
+      const zip = await createBatchZip(tracks, skipped);
+      downloadBlob(zip, `Masters_${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (error) {
+      setExportError(`Could not build the ZIP: ${errorMessage(error)}`);
+    } finally {
+      setZipping(false);
+    }
+  };
+
+  const togglePlayback = () => {
+    if (player.playing) {
+      player.pause();
+    } else {
+      player.play();
     }
-  }, [activeTrack, selectedFileIndex, results, files]);
+    setIsPlaying(player.playing);
+  };
 
   const selectedFile = files[selectedFileIndex];
   const selectedAnalysis = selectedFile ? analyses[selectedFile.name] : null;
   const selectedResult = selectedFile ? results[selectedFile.name] : null;
+  const selectedValidation = selectedFile && selectedResult ? validationOf(selectedFile.name) : null;
+
+  useEffect(() => {
+    player.onEnded = () => setIsPlaying(false);
+    return () => player.close();
+  }, [player]);
+
+  // During a blind trial the slots decide what plays, and levels are always matched
+  const heardTrack = blindTrial ? blindTrial.slots[blindSlot === 'X' ? blindTrial.x : blindSlot] : activeTrack;
+  const loudnessOffset = selectedResult ? selectedResult.loudness.after.integrated - selectedResult.loudness.before.integrated : 0;
+  const trims = selectedResult && (levelMatch || blindTrial)
+    ? loudnessMatch(selectedResult.loudness.before.integrated, selectedResult.loudness.after.integrated)
+    : { original: 0, processed: 0 };
+
+  useEffect(() => {
+    player.setActive(heardTrack);
+  }, [player, heardTrack]);
+
+  useEffect(() => {
+    player.setTrims({ original: trims.original, processed: trims.processed });
+  }, [player, trims.original, trims.processed]);
+
+  // Switching tracks starts the new one from the top; a re-render of the same track keeps playing in place
+  const previousTrackRef = useRef<number>(selectedFileIndex);
+  useEffect(() => {
+    const isTrackChange = previousTrackRef.current !== selectedFileIndex;
+    previousTrackRef.current = selectedFileIndex;
+    if (selectedResult) {
+      player.load(selectedResult.originalBuffer, selectedResult.processedBuffer, !isTrackChange);
+    } else {
+      player.pause();
+    }
+    setIsPlaying(player.playing);
+    if (isTrackChange) {
+      setBlindTrial(null);
+      setBlindReveal(null);
+    }
+  }, [player, selectedResult]);
+
+  const startBlindTrial = () => {
+    setBlindTrial(newBlindTrial());
+    setBlindSlot('A');
+    setBlindReveal(null);
+  };
+
+  const submitBlindTrial = async (preferred: BlindSlot, xIs: BlindSlot | null) => {
+    if (!blindTrial || !selectedFile || !selectedResult) return;
+    const result: ListeningResult = {
+      at: Date.now(),
+      preferred: blindTrial.slots[preferred],
+      identifiedX: xIs ? xIs === blindTrial.x : null,
+      offset: loudnessOffset,
+    };
+    const name = selectedFile.name;
+    setResults(prev => prev[name] ? { ...prev, [name]: { ...prev[name], listening: [...prev[name].listening, result] } } : prev);
+    setBlindReveal({ trial: blindTrial, result });
+    setBlindTrial(null);
+
+    if (selectedResult.versionId === undefined) return;
+    try {
+      const record = await saveListeningResult(selectedResult.versionId, result);
+      if (record) setVersions(prev => ({ ...prev, [name]: (prev[name] ?? []).map(v => v.id === record.id ? record : v) }));
+    } catch (e) {
+      console.error('Could not save listening result', e);
+    }
+  };
+
 
   return (
     <div className="min-h-screen bg-[#050505] text-zinc-200 flex flex-col font-sans">
@@ -147,30 +584,50 @@ export default function App() {
             <p className="text-[10px] text-emerald-500 font-mono tracking-widest uppercase mt-1">Hip-Hop Edition</p>
           </div>
         </div>
+        <div className="flex items-center gap-3">
+          <button onClick={() => setShowHistory(true)} disabled={status === 'processing' || status === 'analyzing'} className="px-4 py-1.5 bg-white/5 hover:bg-white/10 text-white text-sm font-medium rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50">
+            <History className="w-4 h-4" /> History
+          </button>
         {status === 'done' && (
-          <div className="flex items-center gap-3">
-            <button onClick={() => {
-              Object.entries(results).forEach(([filename, res]: [string, any]) => {
-                const a = document.createElement('a');
-                a.href = res.processedUrl;
-                a.download = `${filename.split('.')[0]}_Master.wav`;
-                a.click();
-              });
-            }} className="px-4 py-1.5 bg-emerald-500 text-black text-sm font-medium rounded-lg hover:bg-emerald-400 transition-colors flex items-center gap-2">
-              <Download className="w-4 h-4" /> Download All
+          <>
+            {exportError && <span className="text-xs text-red-400">{exportError}</span>}
+            <button
+              onClick={downloadAll}
+              disabled={zipping || blockedCount === masteredFiles.length}
+              title={blockedCount > 0 ? `${blockedCount} ${blockedCount === 1 ? 'master fails' : 'masters fail'} the ${specProfile?.name} check and will be left out` : undefined}
+              className="px-4 py-1.5 bg-emerald-500 text-black text-sm font-medium rounded-lg hover:bg-emerald-400 transition-colors flex items-center gap-2 disabled:opacity-50">
+              {zipping ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />} Download All (ZIP)
             </button>
             <button onClick={() => {
               setFiles([]);
               setStatus('idle');
               setResults({});
               setAnalyses({});
+              setTrackErrors({});
+              setClampReports({});
+              setSessionId(null);
+              setFileHashes({});
+              setVersions({});
+              setTrackOverrides({});
             }} className="px-4 py-1.5 bg-white/5 hover:bg-white/10 text-white text-sm font-medium rounded-lg transition-colors">
               New Session
             </button>
-          </div>
+          </>
         )}
+        </div>
       </header>
 
+      {showHistory && (
+        <SessionHistory currentSessionId={sessionId} onOpen={openSession} onClose={() => setShowHistory(false)} />
+      )}
+      {editingPreset && (
+        <PresetEditor
+          preset={editingPreset}
+          onSave={(p) => { storePreset(p); setEditingPreset(null); }}
+          onClose={() => setEditingPreset(null)}
+        />
+      )}
+
       {status === 'idle' ? (
         <main className="flex-1 flex items-center justify-center p-8">
           <div 
@@ -179,12 +636,12 @@ export default function App() {
             className="w-full max-w-2xl p-20 border-2 border-dashed border-white/10 rounded-2xl flex flex-col items-center justify-center text-center hover:bg-white/5 transition-colors cursor-pointer bg-[#0a0a0a]"
             onClick={() => document.getElementById('file-upload')?.click()}
           >
-            <input id="file-upload" type="file" accept="audio/*" multiple className="hidden" onChange={handleFileInput} />
+            <input id="file-upload" type="file" accept={AUDIO_ACCEPT} multiple className="hidden" onChange={handleFileInput} />
             <div className="w-20 h-20 bg-emerald-500/10 rounded-full flex items-center justify-center mb-6">
               <Upload className="w-10 h-10 text-emerald-500" />
             </div>
             <h3 className="text-2xl font-medium text-white mb-2">Drop your tracks here</h3>
-            <p className="text-zinc-500 mb-8 max-w-md">Upload single or multiple mixes (MP3/WAV). We'll analyze and master them all intelligently.</p>
+            <p className="text-zinc-500 mb-8 max-w-md">Upload single or multiple mixes (WAV, AIFF, FLAC, MP3). We'll analyze and master them all intelligently.</p>
             <button className="px-8 py-3 bg-white text-black font-semibold rounded-xl hover:bg-zinc-200 transition-colors">
               Browse Files
             </button>
@@ -197,11 +654,74 @@ export default function App() {
             <div className="p-4 border-b border-white/5">
               <h2 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">Track Queue ({files.length})</h2>
             </div>
+            <div className="p-4 border-b border-white/5 space-y-3">
+              <input id="reference-upload" type="file" accept={AUDIO_ACCEPT} className="hidden" onChange={handleReferenceInput} />
+              {reference ? (
+                <>
+                  <div className="flex items-center gap-2">
+                    <Target className="w-4 h-4 text-emerald-500 shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-[10px] uppercase tracking-wider text-zinc-500 font-semibold">Reference</p>
+                      <p className="text-sm text-zinc-300 truncate" title={reference.name}>{reference.name}</p>
+                    </div>
+                    <button onClick={() => setReference(null)} disabled={status === 'processing'} className="p-1 text-zinc-500 hover:text-white disabled:opacity-50 transition-colors" title="Remove reference">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                  <div className="space-y-1">
+                    <div className="flex justify-between items-center">
+                      <label className="text-[10px] uppercase tracking-wider text-zinc-500 font-semibold">Match Amount</label>
+                      <span className="text-[10px] font-mono text-emerald-500">{matchAmount}%</span>
+                    </div>
+                    <input
+                      type="range" min="0" max="100" value={matchAmount}
+                      onChange={(e) => setMatchAmount(parseInt(e.target.value))}
+                      disabled={status === 'processing'}
+                      className="w-full accent-emerald-500 h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                    />
+                  </div>
+                </>
+              ) : (
+                <button
+                  onClick={() => document.getElementById('reference-upload')?.click()}
+                  disabled={status === 'processing' || referenceLoading}
+                  className="w-full py-2 bg-white/5 hover:bg-white/10 text-zinc-300 text-xs font-medium rounded-lg flex items-center justify-center gap-2 disabled:opacity-50 transition-colors"
+                >
+                  {referenceLoading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Target className="w-3.5 h-3.5" />}
+                  {referenceLoading ? 'Analyzing reference...' : 'Load Reference Track'}
+                </button>
+              )}
+              {referenceError && <p className="text-[10px] text-red-400">{referenceError}</p>}
+            </div>
+            <div className="p-4 border-b border-white/5 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <label className="text-[10px] uppercase tracking-wider text-zinc-500 font-semibold shrink-0">Deliverable Spec</label>
+                <select
+                  value={specProfileId}
+                  onChange={(e) => setSpecProfileId(e.target.value)}
+                  className="min-w-0 bg-black border border-white/10 rounded-lg p-1.5 text-[11px] text-white focus:border-emerald-500 outline-none"
+                >
+                  <option value="none">Off</option>
+                  {SPEC_PROFILES.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+              </div>
+              {specProfile && (
+                <label className="flex items-center gap-2 text-[11px] text-zinc-400 cursor-pointer">
+                  <input type="checkbox" checked={blockFailedExport} onChange={(e) => setBlockFailedExport(e.target.checked)} className="accent-emerald-500" />
+                  Block export of failing masters
+                </label>
+              )}
+            </div>
             <div className="flex-1 overflow-y-auto p-2 space-y-1 custom-scrollbar">
               {files.map((f, i) => {
                 const isProcessed = !!results[f.name];
+                const error = trackErrors[f.name];
+                const validation = isProcessed ? validationOf(f.name) : null;
                 const isAnalyzing = status === 'analyzing' && !analyses[f.name];
-                const isProcessing = status === 'processing' && progress.current === i;
+                const fileProgress = status === 'processing' && !isProcessed ? progress[f.name] : undefined;
+                const isQueued = fileProgress?.stage === 'Queued';
+                const isProcessing = !!fileProgress && !isQueued;
+                const isCustomized = hasOverrides(trackOverrides[f.name]) || settingsFor(f).adaptations.length > 0;
                 
                 return (
                   <button
@@ -213,6 +733,8 @@ export default function App() {
                   >
                     {isProcessed ? (
                       <CheckCircle2 className="w-4 h-4 text-emerald-500 shrink-0" />
+                    ) : error ? (
+                      <AlertCircle className="w-4 h-4 text-red-400 shrink-0" />
                     ) : isAnalyzing || isProcessing ? (
                       <Loader2 className="w-4 h-4 text-emerald-500 animate-spin shrink-0" />
                     ) : (
@@ -220,10 +742,19 @@ export default function App() {
                     )}
                     <div className="flex-1 min-w-0">
                       <p className={`text-sm truncate ${selectedFileIndex === i ? 'text-emerald-400 font-medium' : 'text-zinc-300'}`}>{f.name}</p>
-                      <p className="text-[10px] text-zinc-500 font-mono">
-                        {isProcessed ? 'Mastered' : isProcessing ? `${progress.currentFileProgress}%` : isAnalyzing ? 'Analyzing...' : 'Ready'}
+                      <p className={`text-[10px] font-mono ${error ? 'text-red-400 truncate' : 'text-zinc-500'}`} title={error?.message}>
+                        {error ? `${error.stage === 'decode' ? "Can't decode" : 'Failed'}: ${error.message}` : isProcessed ? 'Mastered' : isProcessing ? `${fileProgress.progress}% · ${fileProgress.stage}` : isQueued ? 'Queued' : isAnalyzing ? 'Analyzing...' : 'Ready'}
+                        {isCustomized && !error && <span className="text-emerald-500"> · {hasOverrides(trackOverrides[f.name]) ? 'Custom' : 'Adapted'}</span>}
                       </p>
                     </div>
+                    {validation && (
+                      <span
+                        className={`px-1.5 py-0.5 rounded border text-[9px] font-mono uppercase shrink-0 ${STATUS_BADGE[validation.status]}`}
+                        title={validation.checks.filter(c => c.status !== 'pass').map(c => `${c.label}: ${c.detail}`).join('\n') || `Meets ${validation.profile}`}
+                      >
+                        {validation.status}
+                      </span>
+                    )}
                   </button>
                 );
               })}
@@ -232,23 +763,50 @@ export default function App() {
               <div className="p-4 border-t border-white/5 bg-black/20">
                 <div className="flex justify-between text-xs font-mono text-zinc-400 mb-2">
                   <span>Overall Progress</span>
-                  <span>{Math.round((progress.current / progress.total) * 100)}%</span>
+                  <span>{Math.round(overallProgress)}%</span>
                 </div>
                 <div className="h-1.5 bg-white/5 rounded-full overflow-hidden">
-                  <div className="h-full bg-emerald-500 transition-all duration-300" style={{ width: `${(progress.current / progress.total) * 100}%` }} />
+                  <div className="h-full bg-emerald-500 transition-all duration-300" style={{ width: `${overallProgress}%` }} />
                 </div>
+                <button
+                  onClick={() => abortRef.current?.abort()}
+                  className="w-full mt-3 py-2 bg-white/5 hover:bg-red-500/20 text-zinc-300 hover:text-red-400 text-xs font-medium rounded-lg transition-colors"
+                >
+                  Cancel Batch
+                </button>
               </div>
             )}
+            {selectedFile && status !== 'analyzing' && (() => {
+              const { settings, adaptations } = settingsFor(selectedFile);
+              return (
+                <TrackSettings
+                  name={selectedFile.name}
+                  global={globalSettings}
+                  presets={presetLibrary}
+                  overrides={trackOverrides[selectedFile.name] ?? {}}
+                  resolved={settings}
+                  adaptations={adaptations}
+                  disabled={status === 'processing'}
+                  onChange={(overrides) => setTrackOverrides(prev => ({ ...prev, [selectedFile.name]: overrides }))}
+                />
+              );
+            })()}
             {(status === 'ready' || status === 'done') && (
-              <div className="p-4 border-t border-white/5">
+              <div className="p-4 border-t border-white/5 space-y-3">
+                <label className="flex items-start gap-2 text-xs text-zinc-400 cursor-pointer">
+                  <input type="checkbox" checked={useServer} onChange={(e) => setUseServer(e.target.checked)} className="accent-emerald-500 mt-0.5" />
+                  <span>
+                    Master on server
+                    <span className="block text-[10px] text-zinc-600">Queues the batch on the mastering server instead of this tab{files.length >= 10 ? ' (recommended for this batch)' : ''}</span>
+                  </span>
+                </label>
                 <button
                   onClick={handleProcess}
-                  disabled={status === 'done'}
                   className={`w-full py-3 font-bold rounded-xl flex items-center justify-center gap-2 transition-colors ${
-                    status === 'done' ? 'bg-white/5 text-zinc-500 cursor-not-allowed' : 'bg-emerald-500 text-black hover:bg-emerald-400 shadow-[0_0_20px_rgba(16,185,129,0.2)]'
+                    status === 'done' ? 'bg-white/5 text-white hover:bg-white/10' : 'bg-emerald-500 text-black hover:bg-emerald-400 shadow-[0_0_20px_rgba(16,185,129,0.2)]'
                   }`}
                 >
-                  {status === 'done' ? 'Mastering Complete' : 'Start Professional Mastering'}
+                  {status === 'done' ? 'Re-render with Current Settings' : 'Start Professional Mastering'}
                 </button>
               </div>
             )}
@@ -259,37 +817,80 @@ export default function App() {
             <div className="max-w-2xl mx-auto space-y-8">
               <div>
                 <h2 className="text-2xl font-bold text-white mb-1">Global Mastering Profile</h2>
-                <p className="text-zinc-400 text-sm">Configure once. AI adapts these settings per track.</p>
+                <p className="text-zinc-400 text-sm">Configure once. Override any track in the queue, or let auto-adapt tune each one from its analysis.</p>
               </div>
 
-              {/* Mastering Intent */}
+              {/* Assistant */}
               <div className="space-y-3">
                 <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider flex items-center gap-2">
-                  <Sliders className="w-4 h-4" /> Mastering Intent
+                  <Sparkles className="w-4 h-4" /> Mastering Assistant
                 </h3>
+                <MasteringAssistant
+                  model={assistant}
+                  trackName={selectedFile?.name ?? null}
+                  analysis={selectedAnalysis ?? null}
+                  presets={presetLibrary}
+                  disabled={status === 'processing'}
+                  onAccept={acceptSuggestion}
+                />
+              </div>
+
+              {/* Mastering Intent */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+                    <Sliders className="w-4 h-4" /> Mastering Intent
+                  </h3>
+                  <button
+                    onClick={() => document.getElementById('preset-import')?.click()}
+                    disabled={status === 'processing'}
+                    className="text-xs text-zinc-400 hover:text-white flex items-center gap-1.5 disabled:opacity-50 transition-colors"
+                  >
+                    <FileUp className="w-3.5 h-3.5" /> Import Preset
+                  </button>
+                  <input id="preset-import" type="file" accept=".json,application/json" className="hidden" onChange={handlePresetImport} />
+                </div>
                 <div className="grid grid-cols-2 gap-3">
-                  {[
-                    { id: 'youtube_rap', icon: Radio, name: 'YouTube Rap', desc: 'Slight bass emphasis' },
-                    { id: 'club_bass', icon: Speaker, name: 'Club / Car Bass', desc: 'Aggressive limiter' },
-                    { id: 'tiktok_trap', icon: Smartphone, name: 'TikTok Trap', desc: 'Mid-forward, punchy' },
-                    { id: 'high_res', icon: Waves, name: 'High-Res Archive', desc: 'Preserved dynamics' },
-                  ].map((p) => (
-                    <button
-                      key={p.id}
-                      onClick={() => setPreset(p.id as Preset)}
-                      disabled={status === 'processing' || status === 'done'}
-                      className={`p-4 rounded-xl border text-left transition-all ${
-                        preset === p.id ? 'bg-emerald-500/10 border-emerald-500/50' : 'bg-[#0a0a0a] border-white/5 hover:border-white/20'
-                      } ${(status === 'processing' || status === 'done') ? 'opacity-50 cursor-not-allowed' : ''}`}
-                    >
-                      <div className="flex items-center gap-3 mb-1">
-                        <p.icon className={`w-4 h-4 ${preset === p.id ? 'text-emerald-400' : 'text-zinc-500'}`} />
-                        <span className={`font-medium text-sm ${preset === p.id ? 'text-emerald-400' : 'text-zinc-200'}`}>{p.name}</span>
+                  {presetLibrary.map((p) => {
+                    const Icon = PRESET_ICONS[p.id] ?? Sliders;
+                    const isSelected = preset.id === p.id;
+                    const isBuiltIn = BUILT_IN_PRESETS.includes(p);
+                    return (
+                      <div
+                        key={p.id}
+                        onClick={() => selectPreset(p)}
+                        className={`group p-4 rounded-xl border text-left transition-all cursor-pointer ${
+                          isSelected ? 'bg-emerald-500/10 border-emerald-500/50' : 'bg-[#0a0a0a] border-white/5 hover:border-white/20'
+                        } ${(status === 'processing') ? 'opacity-50 pointer-events-none' : ''}`}
+                      >
+                        <div className="flex items-center gap-3 mb-1">
+                          <Icon className={`w-4 h-4 shrink-0 ${isSelected ? 'text-emerald-400' : 'text-zinc-500'}`} />
+                          <span className={`font-medium text-sm truncate flex-1 ${isSelected ? 'text-emerald-400' : 'text-zinc-200'}`}>{p.name}</span>
+                          <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity" onClick={(e) => e.stopPropagation()}>
+                            {!isBuiltIn && (
+                              <button onClick={() => setEditingPreset(p)} className="p-1 text-zinc-500 hover:text-white" title="Edit preset">
+                                <Pencil className="w-3.5 h-3.5" />
+                              </button>
+                            )}
+                            <button onClick={() => setEditingPreset({ ...p, id: newPresetId(), name: `${p.name} (copy)` })} className="p-1 text-zinc-500 hover:text-white" title="Duplicate and edit">
+                              <Copy className="w-3.5 h-3.5" />
+                            </button>
+                            <button onClick={() => exportPresetFile(p)} className="p-1 text-zinc-500 hover:text-white" title="Export preset file">
+                              <Download className="w-3.5 h-3.5" />
+                            </button>
+                            {!isBuiltIn && (
+                              <button onClick={() => deletePreset(p)} className="p-1 text-zinc-500 hover:text-red-400" title="Delete preset">
+                                <Trash2 className="w-3.5 h-3.5" />
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                        <p className="text-xs text-zinc-500 truncate">{p.description || `${p.loudness.lufs} LUFS · ${p.limiter.ceiling} dBTP`}</p>
                       </div>
-                      <p className="text-xs text-zinc-500">{p.desc}</p>
-                    </button>
-                  ))}
+                    );
+                  })}
                 </div>
+                {presetError && <p className="text-xs text-red-400">Could not import preset: {presetError}</p>}
               </div>
 
               {/* 808 Authority Engine */}
@@ -304,7 +905,7 @@ export default function App() {
                       <select 
                         value={bassSettings.impact} 
                         onChange={(e) => setBassSettings({...bassSettings, impact: e.target.value as any})}
-                        disabled={status === 'processing' || status === 'done'}
+                        disabled={status === 'processing'}
                         className="w-full bg-black border border-white/10 rounded-lg p-2 text-sm text-white focus:border-emerald-500 outline-none disabled:opacity-50"
                       >
                         <option>Soft</option><option>Heavy</option><option>Savage</option>
@@ -315,7 +916,7 @@ export default function App() {
                       <select 
                         value={bassSettings.punch} 
                         onChange={(e) => setBassSettings({...bassSettings, punch: e.target.value as any})}
-                        disabled={status === 'processing' || status === 'done'}
+                        disabled={status === 'processing'}
                         className="w-full bg-black border border-white/10 rounded-lg p-2 text-sm text-white focus:border-emerald-500 outline-none disabled:opacity-50"
                       >
                         <option>Short</option><option>Tight</option><option>Long</option>
@@ -326,7 +927,7 @@ export default function App() {
                       <select 
                         value={bassSettings.weight} 
                         onChange={(e) => setBassSettings({...bassSettings, weight: e.target.value as any})}
-                        disabled={status === 'processing' || status === 'done'}
+                        disabled={status === 'processing'}
                         className="w-full bg-black border border-white/10 rounded-lg p-2 text-sm text-white focus:border-emerald-500 outline-none disabled:opacity-50"
                       >
                         <option>Low</option><option>Balanced</option><option>Deep</option>
@@ -335,11 +936,19 @@ export default function App() {
                   </div>
                   <div className="flex gap-4 pt-4 border-t border-white/5">
                     <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
-                      <input type="checkbox" checked={bassSettings.clubSafe} onChange={(e) => setBassSettings({...bassSettings, clubSafe: e.target.checked})} disabled={status === 'processing' || status === 'done'} className="accent-emerald-500" />
-                      Mono bass below 120Hz
+                      <input type="checkbox" checked={bassSettings.clubSafe} onChange={(e) => setBassSettings({...bassSettings, clubSafe: e.target.checked})} disabled={status === 'processing'} className="accent-emerald-500" />
+                      Mono bass below
+                      <select
+                        value={bassSettings.monoFrequency}
+                        onChange={(e) => setBassSettings({...bassSettings, monoFrequency: parseInt(e.target.value)})}
+                        disabled={!bassSettings.clubSafe || status === 'processing'}
+                        className="bg-black border border-white/10 rounded-md px-1 py-0.5 text-xs font-mono text-white focus:border-emerald-500 outline-none disabled:opacity-50"
+                      >
+                        {[80, 100, 120, 150, 200].map(hz => <option key={hz} value={hz}>{hz}Hz</option>)}
+                      </select>
                     </label>
                     <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
-                      <input type="checkbox" checked={bassSettings.phoneSafe} onChange={(e) => setBassSettings({...bassSettings, phoneSafe: e.target.checked})} disabled={status === 'processing' || status === 'done'} className="accent-emerald-500" />
+                      <input type="checkbox" checked={bassSettings.phoneSafe} onChange={(e) => setBassSettings({...bassSettings, phoneSafe: e.target.checked})} disabled={status === 'processing'} className="accent-emerald-500" />
                       Phone speaker safe
                     </label>
                   </div>
@@ -356,7 +965,7 @@ export default function App() {
                   <input 
                     type="range" min="0" max="100" value={intensity} 
                     onChange={(e) => setIntensity(parseInt(e.target.value))}
-                    disabled={status === 'processing' || status === 'done'}
+                    disabled={status === 'processing'}
                     className="w-full accent-emerald-500 h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
                   />
                 </div>
@@ -367,10 +976,77 @@ export default function App() {
                     </label>
                     <p className="text-[10px] text-zinc-500 mt-1">Restores micro-dynamics</p>
                   </div>
-                  <div className={`w-10 h-5 rounded-full relative cursor-pointer transition-colors ${aiHumanization ? 'bg-emerald-500' : 'bg-zinc-700'} ${status === 'processing' || status === 'done' ? 'opacity-50 pointer-events-none' : ''}`} onClick={() => setAiHumanization(!aiHumanization)}>
+                  <div className={`w-10 h-5 rounded-full relative cursor-pointer transition-colors ${aiHumanization ? 'bg-emerald-500' : 'bg-zinc-700'} ${status === 'processing' ? 'opacity-50 pointer-events-none' : ''}`} onClick={() => setAiHumanization(!aiHumanization)}>
                     <div className={`absolute top-1 w-3 h-3 rounded-full bg-white transition-all ${aiHumanization ? 'left-6' : 'left-1'}`} />
                   </div>
                 </div>
+                <div className="col-span-2 bg-[#0a0a0a] rounded-xl border border-white/5 p-5 flex items-center justify-between">
+                  <div>
+                    <label className="text-xs font-semibold text-zinc-500 uppercase tracking-wider flex items-center gap-1.5">
+                      <Wand2 className="w-3.5 h-3.5" /> Auto-Adapt
+                    </label>
+                    <p className="text-[10px] text-zinc-500 mt-1">Sets each track's intensity, bass shelf and low cut from its analysis</p>
+                  </div>
+                  <div className={`w-10 h-5 rounded-full relative cursor-pointer transition-colors ${autoAdapt ? 'bg-emerald-500' : 'bg-zinc-700'} ${status === 'processing' ? 'opacity-50 pointer-events-none' : ''}`} onClick={() => setAutoAdapt(!autoAdapt)}>
+                    <div className={`absolute top-1 w-3 h-3 rounded-full bg-white transition-all ${autoAdapt ? 'left-6' : 'left-1'}`} />
+                  </div>
+                </div>
+              </div>
+
+              {/* Loudness Target */}
+              <div className="space-y-3">
+                <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+                  <Activity className="w-4 h-4" /> Loudness Target
+                </h3>
+                <div className="bg-[#0a0a0a] rounded-xl border border-white/5 p-5 grid grid-cols-4 gap-4">
+                  <div className="space-y-2">
+                    <label className="text-[10px] uppercase tracking-wider text-zinc-500 font-semibold">Target</label>
+                    <select
+                      value={targetMode}
+                      onChange={(e) => setTargetMode(e.target.value)}
+                      disabled={status === 'processing'}
+                      className="w-full bg-black border border-white/10 rounded-lg p-2 text-sm text-white focus:border-emerald-500 outline-none disabled:opacity-50"
+                    >
+                      <option value="preset">Preset default</option>
+                      {PLATFORM_TARGETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                      <option value="custom">Custom</option>
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-[10px] uppercase tracking-wider text-zinc-500 font-semibold">Integrated (LUFS)</label>
+                    <input
+                      type="number" step="0.5" min={TARGET_RANGES.lufs.min} max={TARGET_RANGES.lufs.max}
+                      value={targetMode === 'custom' ? customTarget.lufs : loudnessTarget.lufs}
+                      onChange={(e) => Number.isFinite(e.target.valueAsNumber) && setCustomTarget({ ...customTarget, lufs: e.target.valueAsNumber })}
+                      onBlur={() => setCustomTarget(clampTarget(customTarget))}
+                      disabled={targetMode !== 'custom' || status === 'processing'}
+                      className="w-full bg-black border border-white/10 rounded-lg p-2 text-sm font-mono text-white focus:border-emerald-500 outline-none disabled:opacity-50"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-[10px] uppercase tracking-wider text-zinc-500 font-semibold">Ceiling (dBTP)</label>
+                    <input
+                      type="number" step="0.1" min={TARGET_RANGES.truePeak.min} max={TARGET_RANGES.truePeak.max}
+                      value={targetMode === 'custom' ? customTarget.truePeak : loudnessTarget.truePeak}
+                      onChange={(e) => Number.isFinite(e.target.valueAsNumber) && setCustomTarget({ ...customTarget, truePeak: e.target.valueAsNumber })}
+                      onBlur={() => setCustomTarget(clampTarget(customTarget))}
+                      disabled={targetMode !== 'custom' || status === 'processing'}
+                      className="w-full bg-black border border-white/10 rounded-lg p-2 text-sm font-mono text-white focus:border-emerald-500 outline-none disabled:opacity-50"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-[10px] uppercase tracking-wider text-zinc-500 font-semibold">Release</label>
+                    <select
+                      value={limiterRelease ?? ''}
+                      onChange={(e) => setLimiterRelease(e.target.value === '' ? null : parseInt(e.target.value))}
+                      disabled={status === 'processing'}
+                      className="w-full bg-black border border-white/10 rounded-lg p-2 text-sm font-mono text-white focus:border-emerald-500 outline-none disabled:opacity-50"
+                    >
+                      <option value="">Auto ({preset.limiter.release} ms)</option>
+                      {[20, 50, 100, 200, 400].map(ms => <option key={ms} value={ms}>{ms} ms</option>)}
+                    </select>
+                  </div>
+                </div>
               </div>
             </div>
           </div>
@@ -396,7 +1072,7 @@ export default function App() {
                     <div>
                       <div className="flex justify-between text-xs mb-1">
                         <span className="text-zinc-400">Loudness</span>
-                        <span className={`font-mono ${selectedAnalysis.lufs < -16 ? 'text-yellow-400' : 'text-emerald-400'}`}>{selectedAnalysis.lufs.toFixed(1)} LUFS</span>
+                        <span className={`font-mono ${selectedAnalysis.lufs < -16 ? 'text-yellow-400' : 'text-emerald-400'}`}>{formatDb(selectedAnalysis.lufs)} LUFS</span>
                       </div>
                       <div className="h-1.5 bg-white/5 rounded-full overflow-hidden">
                         <div className={`h-full ${selectedAnalysis.lufs < -16 ? 'bg-yellow-500' : 'bg-emerald-500'}`} style={{ width: `${Math.min(100, Math.max(0, (selectedAnalysis.lufs + 24) / 16 * 100))}%` }} />
@@ -405,12 +1081,24 @@ export default function App() {
                     <div>
                       <div className="flex justify-between text-xs mb-1">
                         <span className="text-zinc-400">True Peak</span>
-                        <span className={`font-mono ${selectedAnalysis.truePeak > 0 ? 'text-red-400' : 'text-emerald-400'}`}>{selectedAnalysis.truePeak > 0 ? '+' : ''}{selectedAnalysis.truePeak.toFixed(1)} dBTP</span>
+                        <span className={`font-mono ${selectedAnalysis.truePeak > 0 ? 'text-red-400' : 'text-emerald-400'}`}>{selectedAnalysis.truePeak > 0 ? '+' : ''}{formatDb(selectedAnalysis.truePeak)} dBTP</span>
                       </div>
                       <div className="h-1.5 bg-white/5 rounded-full overflow-hidden">
                         <div className={`h-full ${selectedAnalysis.truePeak > 0 ? 'bg-red-500' : 'bg-emerald-500'}`} style={{ width: `${Math.min(100, Math.max(0, (selectedAnalysis.truePeak + 6) / 8 * 100))}%` }} />
                       </div>
                     </div>
+                    <div className="grid grid-cols-3 gap-2">
+                      {[
+                        { label: 'Short-term', value: formatDb(selectedAnalysis.shortTermMax), unit: 'LUFS' },
+                        { label: 'Momentary', value: formatDb(selectedAnalysis.momentaryMax), unit: 'LUFS' },
+                        { label: 'LRA', value: selectedAnalysis.dynamicRange.toFixed(1), unit: 'LU' },
+                      ].map((m) => (
+                        <div key={m.label} className="bg-black/40 rounded-lg border border-white/5 p-2">
+                          <p className="text-[9px] uppercase tracking-wider text-zinc-500">{m.label}</p>
+                          <p className="text-xs font-mono text-zinc-200">{m.value} <span className="text-zinc-500">{m.unit}</span></p>
+                        </div>
+                      ))}
+                    </div>
                   </div>
 
                   {/* Badges */}
@@ -422,35 +1110,197 @@ export default function App() {
                       <span className="px-2 py-1 bg-yellow-500/10 text-yellow-400 text-[10px] font-semibold uppercase rounded border border-yellow-500/20">AI Artifacts</span>
                     )}
                     <span className="px-2 py-1 bg-white/5 text-zinc-300 text-[10px] font-semibold uppercase rounded border border-white/10">{selectedAnalysis.bassBalance} Bass</span>
+                    <span className="px-2 py-1 bg-white/5 text-zinc-300 text-[10px] font-semibold uppercase rounded border border-white/10">{selectedAnalysis.stereoWidth} Width</span>
                   </div>
 
+                  {/* Reference Match */}
+                  {reference && selectedAnalysis.spectrum && (
+                    <div className="space-y-2">
+                      <h4 className="text-[10px] font-semibold text-zinc-500 uppercase tracking-wider">Reference Match</h4>
+                      <SpectrumMatch track={selectedAnalysis.spectrum} reference={reference.spectrum} amount={matchAmount} />
+                    </div>
+                  )}
+
                   {/* A/B Player (if done) */}
                   {selectedResult && (
                     <div className="bg-black/40 rounded-xl p-4 border border-white/5 space-y-4">
                       <div className="flex items-center justify-between">
-                        <span className="text-xs font-semibold text-zinc-500 uppercase">A/B Listen</span>
-                        <div className="flex bg-black rounded p-0.5 border border-white/10">
-                          <button onClick={() => setActiveTrack('original')} className={`px-2 py-1 text-[10px] font-medium rounded-sm ${activeTrack === 'original' ? 'bg-zinc-800 text-white' : 'text-zinc-500'}`}>Orig</button>
-                          <button onClick={() => setActiveTrack('processed')} className={`px-2 py-1 text-[10px] font-medium rounded-sm ${activeTrack === 'processed' ? 'bg-emerald-500/20 text-emerald-400' : 'text-zinc-500'}`}>Master</button>
-                        </div>
+                        <span className="text-xs font-semibold text-zinc-500 uppercase">{blindTrial ? 'Blind A/B/X' : 'A/B Listen'}</span>
+                        {!blindTrial && (
+                          <div className="flex items-center gap-2">
+                            <button
+                              onClick={() => setLevelMatch(!levelMatch)}
+                              className={`p-1.5 rounded border ${levelMatch ? 'border-emerald-500/40 text-emerald-400' : 'border-white/10 text-zinc-500 hover:text-white'}`}
+                              title="Match loudness: turn the louder version down so only the processing differs"
+                            >
+                              <Scale className="w-3 h-3" />
+                            </button>
+                            <button onClick={startBlindTrial} className="p-1.5 rounded border border-white/10 text-zinc-500 hover:text-white" title="Blind A/B/X test">
+                              <EyeOff className="w-3 h-3" />
+                            </button>
+                            <div className="flex bg-black rounded p-0.5 border border-white/10">
+                              <button onClick={() => setActiveTrack('original')} className={`px-2 py-1 text-[10px] font-medium rounded-sm ${activeTrack === 'original' ? 'bg-zinc-800 text-white' : 'text-zinc-500'}`}>Orig</button>
+                              <button onClick={() => setActiveTrack('processed')} className={`px-2 py-1 text-[10px] font-medium rounded-sm ${activeTrack === 'processed' ? 'bg-emerald-500/20 text-emerald-400' : 'text-zinc-500'}`}>Master</button>
+                            </div>
+                          </div>
+                        )}
                       </div>
-                      <div className="flex items-center gap-3">
+                      <div className="flex items-start gap-3">
                         <button onClick={togglePlayback} className="w-8 h-8 bg-emerald-500 text-black rounded-full flex items-center justify-center hover:bg-emerald-400 shrink-0">
                           {isPlaying ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3 ml-0.5" />}
                         </button>
-                        <div className="flex-1 h-8 bg-black/60 rounded border border-white/5 flex items-center px-2 overflow-hidden relative">
-                           <div className="absolute inset-0 flex items-center gap-[2px] px-2 opacity-70">
-                              {Array.from({ length: 30 }).map((_, i) => (
-                                <div key={i} className={`w-full rounded-full ${activeTrack === 'processed' ? 'bg-emerald-500' : 'bg-zinc-600'}`} style={{ height: `${activeTrack === 'processed' ? 40 + Math.random() * 40 : 20 + Math.random() * 60}%` }} />
-                              ))}
-                           </div>
+                        <div className="flex-1 min-w-0">
+                          <WaveformPlayer player={player} original={selectedResult.originalBuffer} processed={selectedResult.processedBuffer} active={heardTrack} playing={isPlaying} trim={trims[heardTrack]} blind={!!blindTrial} />
                         </div>
                       </div>
-                      <audio ref={audioRef} onEnded={() => setIsPlaying(false)} onPause={() => setIsPlaying(false)} onPlay={() => setIsPlaying(true)} />
+                      {blindTrial ? (
+                        <BlindTest slot={blindSlot} onSlot={setBlindSlot} onSubmit={submitBlindTrial} onCancel={() => setBlindTrial(null)} />
+                      ) : (
+                        <p className="text-[10px] font-mono text-zinc-500">
+                          {levelMatch
+                            ? <>Level matched: <span className="text-emerald-400">{loudnessOffset >= 0 ? 'Master' : 'Original'} {formatDb(-Math.abs(loudnessOffset))} dB</span></>
+                            : <>Master is {loudnessOffset >= 0 ? '+' : ''}{formatDb(loudnessOffset)} LU vs the original</>}
+                        </p>
+                      )}
+                      {blindReveal && (
+                        <p className="text-[11px] text-zinc-300">
+                          You preferred <span className={blindReveal.result.preferred === 'processed' ? 'text-emerald-400' : 'text-zinc-100'}>{blindReveal.result.preferred === 'processed' ? 'the master' : 'the original'}</span>.
+                          {' '}A was the {blindReveal.trial.slots.A === 'processed' ? 'master' : 'original'}, X was {blindReveal.trial.x}
+                          {blindReveal.result.identifiedX !== null && <> ({blindReveal.result.identifiedX ? 'identified' : 'missed'})</>}.
+                        </p>
+                      )}
+                      {selectedResult.listening.length > 0 && (() => {
+                        const summary = summarizeResults(selectedResult.listening);
+                        return (
+                          <div className="flex justify-between text-xs">
+                            <span className="text-zinc-400">Blind Tests</span>
+                            <span className="font-mono text-zinc-300">
+                              master preferred {summary.preferredMaster}/{summary.trials}
+                              {summary.answeredX > 0 && <> · X {summary.identified}/{summary.answeredX}</>}
+                            </span>
+                          </div>
+                        );
+                      })()}
+
+                      <div className="flex justify-between text-xs">
+                        <span className="text-zinc-400">Crest Factor</span>
+                        <span className="font-mono text-zinc-300">
+                          {selectedResult.crestFactor.before.toFixed(1)} → <span className={selectedResult.crestFactor.after >= selectedResult.crestFactor.before ? 'text-emerald-400' : 'text-yellow-400'}>{selectedResult.crestFactor.after.toFixed(1)}</span> dB
+                        </span>
+                      </div>
+                      <div className="flex justify-between text-xs">
+                        <span className="text-zinc-400">Master</span>
+                        <span className="font-mono text-zinc-300" title={`Target ${selectedResult.loudness.target.lufs} LUFS / ${selectedResult.loudness.target.truePeak} dBTP`}>
+                          <span className={Math.abs(selectedResult.loudness.after.integrated - selectedResult.loudness.target.lufs) <= 1 ? 'text-emerald-400' : 'text-yellow-400'}>{formatDb(selectedResult.loudness.after.integrated)}</span> LUFS / <span className={selectedResult.loudness.after.truePeak <= selectedResult.loudness.target.truePeak + 0.05 ? 'text-emerald-400' : 'text-red-400'}>{formatDb(selectedResult.loudness.after.truePeak)}</span> dBTP
+                        </span>
+                      </div>
+                      <div className="space-y-1">
+                        <div className="flex justify-between text-xs">
+                          <span className="text-zinc-400">Limiter GR</span>
+                          <span className="font-mono text-zinc-300">max {selectedResult.gainReduction.max.toFixed(1)} dB · avg {selectedResult.gainReduction.average.toFixed(2)} dB</span>
+                        </div>
+                        <div className="h-6 flex items-start gap-px" title={`Limiting on ${selectedResult.gainReduction.active.toFixed(0)}% of the track`}>
+                          {selectedResult.gainReduction.history.map((gr, i) => (
+                            <div key={i} className="flex-1 bg-red-500/70 rounded-b-sm" style={{ height: `${Math.min(100, gr / 6 * 100)}%` }} />
+                          ))}
+                        </div>
+                      </div>
+                      {selectedResult.bandGainReduction.length > 0 && (
+                        <div className="space-y-1.5">
+                          <span className="text-xs text-zinc-400">Multiband GR</span>
+                          {selectedResult.bandGainReduction.map(band => (
+                            <div key={band.low} className="space-y-0.5">
+                              <div className="flex justify-between text-[10px] font-mono">
+                                <span className="text-zinc-500">{formatFrequency(band.low)}–{formatFrequency(band.high)}</span>
+                                <span className="text-zinc-300">max {band.gainReduction.max.toFixed(1)} dB · avg {band.gainReduction.average.toFixed(2)} dB</span>
+                              </div>
+                              <div className="h-3 flex items-start gap-px" title={`Compressing on ${band.gainReduction.active.toFixed(0)}% of the track`}>
+                                {band.gainReduction.history.map((gr, i) => (
+                                  <div key={i} className="flex-1 bg-amber-500/70 rounded-b-sm" style={{ height: `${Math.min(100, gr / 12 * 100)}%` }} />
+                                ))}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {selectedResult.dynamics && (
+                        <div className="flex justify-between text-xs">
+                          <span className="text-zinc-400">Dynamics Kept</span>
+                          <span className="font-mono text-zinc-300" title={`PLR ${selectedResult.dynamics.plrBefore.toFixed(1)} → ${selectedResult.dynamics.plrAfter.toFixed(1)} dB, LRA ${selectedResult.dynamics.lraBefore.toFixed(1)} → ${selectedResult.dynamics.lraAfter.toFixed(1)} LU`}>
+                            <span className={selectedResult.dynamics.retained >= 90 ? 'text-emerald-400' : 'text-yellow-400'}>{selectedResult.dynamics.retained.toFixed(0)}%</span> · LRA {selectedResult.dynamics.lraAfter.toFixed(1)} LU
+                          </span>
+                        </div>
+                      )}
                       
-                      <a href={selectedResult.processedUrl} download={`${selectedFile?.name.split('.')[0]}_Master.wav`} className="w-full py-2 bg-white/5 hover:bg-white/10 text-white text-xs font-medium rounded-lg flex items-center justify-center gap-2 transition-colors">
+                      <div className="grid grid-cols-2 gap-2">
+                        <select
+                          value={exportFormat}
+                          onChange={(e) => setExportFormat(e.target.value)}
+                          className="w-full bg-black border border-white/10 rounded-lg p-1.5 text-[11px] text-white focus:border-emerald-500 outline-none"
+                        >
+                          <option value="preset">Preset default</option>
+                          {EXPORT_FORMATS.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+                        </select>
+                        <select
+                          value={exportRate ?? ''}
+                          onChange={(e) => setExportRate(e.target.value === '' ? null : parseInt(e.target.value))}
+                          className="w-full bg-black border border-white/10 rounded-lg p-1.5 text-[11px] font-mono text-white focus:border-emerald-500 outline-none"
+                        >
+                          <option value="">{(selectedResult.processedBuffer.sampleRate / 1000).toFixed(1)} kHz (source)</option>
+                          <option value="44100">44.1 kHz</option>
+                          <option value="48000">48 kHz</option>
+                        </select>
+                      </div>
+                      <label className="flex items-center gap-2 text-[11px] text-zinc-400 cursor-pointer" title="Source tags, BWF loudness (bext) and mastering settings (iXML)">
+                        <input type="checkbox" checked={embedMetadata} onChange={(e) => setEmbedMetadata(e.target.checked)} className="accent-emerald-500" />
+                        Embed metadata
+                      </label>
+                      {selectedValidation && (
+                        <div className="space-y-1.5">
+                          <div className="flex justify-between items-center">
+                            <h4 className="text-[10px] font-semibold text-zinc-500 uppercase tracking-wider">{selectedValidation.profile}</h4>
+                            <span className={`px-1.5 py-0.5 rounded border text-[9px] font-mono uppercase ${STATUS_BADGE[selectedValidation.status]}`}>{selectedValidation.status}</span>
+                          </div>
+                          {selectedValidation.checks.map(check => (
+                            <div key={check.label} className="flex justify-between gap-2 text-[11px]">
+                              <span className="text-zinc-400">{check.label}</span>
+                              <span className={`font-mono text-right ${check.status === 'pass' ? 'text-zinc-300' : STATUS_BADGE[check.status]}`}>{check.detail}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <button
+                        onClick={() => selectedFile && downloadMaster(selectedFile.name, selectedResult)}
+                        disabled={!selectedFile || exportBlocked(selectedFile.name)}
+                        title={selectedFile && exportBlocked(selectedFile.name) ? `Blocked: not passing ${specProfile?.name}` : undefined}
+                        className="w-full py-2 bg-white/5 hover:bg-white/10 text-white text-xs font-medium rounded-lg flex items-center justify-center gap-2 disabled:opacity-50 transition-colors"
+                      >
                         <Download className="w-3.5 h-3.5" /> Download Track
-                      </a>
+                      </button>
+                      {selectedFile && clampReports[selectedFile.name] !== undefined && (
+                        <p className={`text-[10px] font-mono text-center ${clampReports[selectedFile.name] > 0 ? 'text-red-400' : 'text-zinc-500'}`}>
+                          {clampReports[selectedFile.name]} samples clamped on export
+                        </p>
+                      )}
+                      {selectedFile && (versions[selectedFile.name]?.length ?? 0) > 1 && (
+                        <div className="pt-3 border-t border-white/5 space-y-1.5">
+                          <h4 className="text-[10px] font-semibold text-zinc-500 uppercase tracking-wider">Versions</h4>
+                          {versions[selectedFile.name].map((version, i) => {
+                            const isActive = version.id === selectedResult.versionId;
+                            return (
+                              <button
+                                key={version.id}
+                                onClick={() => showVersion(selectedFile, version)}
+                                className={`w-full text-left px-2 py-1.5 rounded-lg text-[11px] font-mono flex justify-between gap-2 transition-colors ${isActive ? 'bg-emerald-500/10 text-emerald-400' : 'text-zinc-400 hover:bg-white/5'}`}
+                                title={new Date(version.createdAt).toLocaleString()}
+                              >
+                                <span className="truncate">v{i + 1} · {version.settings.preset.name} · {version.settings.intensity}%</span>
+                                <span>{formatDb(version.report.loudness.after.integrated)} LUFS · {formatDb(version.report.loudness.after.truePeak)} dBTP</span>
+                              </button>
+                            );
+                          })}
+                        </div>
+                      )}
                     </div>
                   )}
 
@@ -480,6 +1330,12 @@ export default function App() {
                     </div>
                   )}
                 </>
+              ) : selectedFile && trackErrors[selectedFile.name] ? (
+                <div className="flex flex-col items-center justify-center h-40 text-center space-y-2 px-6">
+                  <AlertCircle className="w-6 h-6 text-red-400" />
+                  <span className="text-sm text-zinc-300">Could not read {selectedFile.name}</span>
+                  <span className="text-xs text-red-400">{trackErrors[selectedFile.name].message}</span>
+                </div>
               ) : (
                 <div className="flex items-center justify-center h-40 text-zinc-600 text-sm">
                   Select a track to view analysis
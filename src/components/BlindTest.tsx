@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { BlindSlot } from '../lib/listening-test';
+
+interface BlindTestProps {
+  slot: BlindSlot | 'X';
+  onSlot: (slot: BlindSlot | 'X') => void;
+  onSubmit: (preferred: BlindSlot, xIs: BlindSlot | null) => void;
+  onCancel: () => void;
+}
+
+const SLOTS: BlindSlot[] = ['A', 'B'];
+const labelClass = 'text-[10px] uppercase tracking-wider text-zinc-500 font-semibold';
+
+const choiceClass = (selected: boolean) =>
+  `w-8 py-1 text-[10px] font-mono rounded-sm border ${selected ? 'border-emerald-500 text-emerald-400' : 'border-white/10 text-zinc-400 hover:text-white'}`;
+
+/**
+ * Controls for a blind A/B/X trial. Which version sits behind A and B is kept
+ * by the caller; this only collects the answers.
+ */
+export default function BlindTest({ slot, onSlot, onSubmit, onCancel }: BlindTestProps) {
+  const [preferred, setPreferred] = useState<BlindSlot | null>(null);
+  const [xIs, setXIs] = useState<BlindSlot | null>(null);
+
+  return (
+    <div className="space-y-3 p-3 rounded-lg border border-emerald-500/20 bg-emerald-500/5">
+      <div className="flex items-center justify-between">
+        <span className={labelClass}>Listen</span>
+        <div className="flex bg-black rounded p-0.5 border border-white/10">
+          {(['A', 'B', 'X'] as const).map(s => (
+            <button key={s} onClick={() => onSlot(s)} className={`px-3 py-1 text-[10px] font-mono rounded-sm ${slot === s ? 'bg-zinc-800 text-white' : 'text-zinc-500'}`}>{s}</button>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center justify-between">
+        <span className={labelClass}>X is</span>
+        <div className="flex gap-1">
+          {SLOTS.map(s => <button key={s} onClick={() => setXIs(xIs === s ? null : s)} className={choiceClass(xIs === s)}>{s}</button>)}
+        </div>
+      </div>
+      <div className="flex items-center justify-between">
+        <span className={labelClass}>I prefer</span>
+        <div className="flex gap-1">
+          {SLOTS.map(s => <button key={s} onClick={() => setPreferred(s)} className={choiceClass(preferred === s)}>{s}</button>)}
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-3 py-1 bg-white/5 hover:bg-white/10 text-white text-xs rounded-lg transition-colors">Cancel</button>
+        <button
+          onClick={() => preferred && onSubmit(preferred, xIs)}
+          disabled={!preferred}
+          className="px-3 py-1 bg-emerald-500 text-black text-xs font-medium rounded-lg hover:bg-emerald-400 disabled:opacity-30 transition-colors"
+        >
+          Reveal
+        </button>
+      </div>
+    </div>
+  );
+}
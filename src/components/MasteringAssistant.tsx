@@ -0,0 +1,113 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Loader2, Sparkles, X } from 'lucide-react';
+import type { AudioAnalysis } from '../lib/audio-processor';
+import { AssistantModel, MasteringSuggestion, suggestMastering } from '../lib/assistant';
+import { Preset } from '../lib/presets';
+
+interface MasteringAssistantProps {
+  model: AssistantModel;
+  trackName: string | null;
+  analysis: AudioAnalysis | null; // Of the selected track
+  presets: Preset[];
+  disabled: boolean;
+  onAccept: (suggestion: MasteringSuggestion) => void;
+}
+
+const labelClass = 'text-[10px] uppercase tracking-wider text-zinc-500 font-semibold';
+
+export default function MasteringAssistant({ model, trackName, analysis, presets, disabled, onAccept }: MasteringAssistantProps) {
+  const [brief, setBrief] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [suggestion, setSuggestion] = useState<MasteringSuggestion | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // A suggestion is for one track's analysis; drop it when the selection changes
+  useEffect(() => {
+    abortRef.current?.abort();
+    setSuggestion(null);
+    setError(null);
+  }, [analysis]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleSuggest = async () => {
+    if (!analysis) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLoading(true);
+    setError(null);
+    setSuggestion(null);
+    try {
+      const result = await suggestMastering(model, { analysis, brief, presets }, controller.signal);
+      if (!controller.signal.aborted) setSuggestion(result);
+    } catch (e) {
+      if (!controller.signal.aborted) setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  return (
+    <div className="bg-[#0a0a0a] rounded-xl border border-white/5 p-5 space-y-4">
+      <div className="flex gap-2">
+        <input
+          value={brief}
+          onChange={(e) => setBrief(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && !loading && handleSuggest()}
+          maxLength={300}
+          placeholder='Describe the sound, e.g. "dark drill, heavy sub, for car speakers"'
+          disabled={disabled || !analysis}
+          className="flex-1 bg-black border border-white/10 rounded-lg p-2 text-sm text-white placeholder:text-zinc-600 focus:border-emerald-500 outline-none disabled:opacity-50"
+        />
+        <button
+          onClick={handleSuggest}
+          disabled={disabled || !analysis || loading}
+          className="px-4 py-2 bg-white/5 hover:bg-white/10 text-white text-sm font-medium rounded-lg flex items-center gap-2 disabled:opacity-50 transition-colors"
+        >
+          {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />} Suggest
+        </button>
+      </div>
+      <p className="text-[10px] text-zinc-500">
+        {analysis ? <>Uses the analysis of <span className="text-zinc-300">{trackName}</span></> : 'Add a track to get a suggestion from its analysis'} · {model.name}
+      </p>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {suggestion && (
+        <div className="space-y-3 pt-4 border-t border-white/5">
+          <div className="grid grid-cols-3 gap-3 text-xs">
+            <div className="space-y-1">
+              <span className={labelClass}>Preset</span>
+              <p className="text-emerald-400 font-medium truncate">{suggestion.preset.name}</p>
+            </div>
+            <div className="space-y-1">
+              <span className={labelClass}>Intensity</span>
+              <p className="font-mono text-zinc-200">{suggestion.intensity}%</p>
+            </div>
+            <div className="space-y-1">
+              <span className={labelClass}>808</span>
+              <p className="text-zinc-200 truncate">{suggestion.bassSettings.impact} · {suggestion.bassSettings.punch} · {suggestion.bassSettings.weight}</p>
+            </div>
+          </div>
+          <p className="text-xs text-zinc-400 leading-relaxed">{suggestion.rationale}</p>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setSuggestion(null)} className="px-3 py-1.5 bg-white/5 hover:bg-white/10 text-white text-xs rounded-lg flex items-center gap-1.5 transition-colors">
+              <X className="w-3.5 h-3.5" /> Dismiss
+            </button>
+            <button
+              onClick={() => { onAccept(suggestion); setSuggestion(null); }}
+              disabled={disabled}
+              className="px-3 py-1.5 bg-emerald-500 text-black text-xs font-medium rounded-lg hover:bg-emerald-400 flex items-center gap-1.5 disabled:opacity-50 transition-colors"
+            >
+              <Check className="w-3.5 h-3.5" /> Apply to Profile
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { Plus, Sliders, Trash2, X } from 'lucide-react';
+import { EqBand, EqBandType, parsePreset, Preset, PresetCompressor, PresetMultiband } from '../lib/presets';
+
+interface PresetEditorProps {
+  preset: Preset;
+  onSave: (preset: Preset) => void;
+  onClose: () => void;
+}
+
+const EQ_TYPES: { id: EqBandType; name: string }[] = [
+  { id: 'peaking', name: 'Bell' },
+  { id: 'lowshelf', name: 'Low shelf' },
+  { id: 'highshelf', name: 'High shelf' },
+  { id: 'highpass', name: 'High pass' },
+  { id: 'lowpass', name: 'Low pass' },
+];
+
+const DEFAULT_COMPRESSOR: PresetCompressor = { threshold: -16, ratio: 4, ratioScale: 1, knee: 30, attack: 3, release: 250 };
+
+// Starting layouts for 3 and 4 bands; switching the band count resets to one of these
+const DEFAULT_MULTIBAND: Record<number, PresetMultiband> = {
+  3: {
+    crossovers: [120, 2000],
+    bands: [
+      { threshold: -12, ratio: 4, ratioScale: 1, knee: 12, attack: 10, release: 250 },
+      { threshold: -14, ratio: 3, ratioScale: 1, knee: 12, attack: 10, release: 150 },
+      { threshold: -16, ratio: 3, ratioScale: 1, knee: 12, attack: 3, release: 80 },
+    ],
+  },
+  4: {
+    crossovers: [120, 800, 5000],
+    bands: [
+      { threshold: -12, ratio: 4, ratioScale: 1, knee: 12, attack: 10, release: 250 },
+      { threshold: -14, ratio: 3, ratioScale: 1, knee: 12, attack: 10, release: 150 },
+      { threshold: -14, ratio: 3, ratioScale: 1, knee: 12, attack: 5, release: 100 },
+      { threshold: -16, ratio: 3, ratioScale: 1, knee: 12, attack: 3, release: 80 },
+    ],
+  },
+};
+
+const inputClass = 'w-full bg-black border border-white/10 rounded-lg p-2 text-sm font-mono text-white focus:border-emerald-500 outline-none disabled:opacity-50';
+const labelClass = 'text-[10px] uppercase tracking-wider text-zinc-500 font-semibold';
+
+function NumberField({ label, value, step, onChange }: { label: string; value: number; step: number; onChange: (value: number) => void }) {
+  return (
+    <div className="space-y-2">
+      <label className={labelClass}>{label}</label>
+      <input type="number" step={step} value={value} onChange={(e) => e.target.value !== '' && onChange(parseFloat(e.target.value))} className={inputClass} />
+    </div>
+  );
+}
+
+export default function PresetEditor({ preset, onSave, onClose }: PresetEditorProps) {
+  const [draft, setDraft] = useState<Preset>(preset);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (changes: Partial<Preset>) => setDraft(prev => ({ ...prev, ...changes }));
+  const updateBand = (index: number, changes: Partial<EqBand>) => update({ eq: draft.eq.map((band, i) => i === index ? { ...band, ...changes } : band) });
+  const updateCompressor = (changes: Partial<PresetCompressor>) => draft.compressor && update({ compressor: { ...draft.compressor, ...changes } });
+  const multiband = draft.multiband ?? null;
+  const updateCrossover = (index: number, frequency: number) => multiband && update({
+    multiband: { ...multiband, crossovers: multiband.crossovers.map((f, i) => i === index ? frequency : f) },
+  });
+  const updateMultibandBand = (index: number, changes: Partial<PresetCompressor>) => multiband && update({
+    multiband: { ...multiband, bands: multiband.bands.map((band, i) => i === index ? { ...band, ...changes } : band) },
+  });
+
+  const handleSave = () => {
+    try {
+      onSave(parsePreset(draft));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-8" onClick={onClose}>
+      <div className="w-full max-w-2xl max-h-[85vh] bg-[#0a0a0a] rounded-xl border border-white/10 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-white/5 flex items-center justify-between">
+          <h2 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+            <Sliders className="w-4 h-4" /> Edit Preset
+          </h2>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6 custom-scrollbar">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className={labelClass}>Name</label>
+              <input value={draft.name} maxLength={60} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+            </div>
+            <div className="space-y-2">
+              <label className={labelClass}>Description</label>
+              <input value={draft.description} maxLength={120} onChange={(e) => update({ description: e.target.value })} className={inputClass} />
+            </div>
+          </div>
+
+          {/* EQ */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className={labelClass}>EQ <span className="normal-case tracking-normal font-normal">(gains at 50% intensity)</span></h3>
+              <button
+                onClick={() => update({ eq: [...draft.eq, { type: 'peaking', frequency: 1000, gain: 0, q: 1 }] })}
+                disabled={draft.eq.length >= 8}
+                className="text-xs text-zinc-400 hover:text-white flex items-center gap-1 disabled:opacity-30 transition-colors"
+              >
+                <Plus className="w-3.5 h-3.5" /> Add band
+              </button>
+            </div>
+            {draft.eq.length === 0 && <p className="text-xs text-zinc-600">No EQ bands.</p>}
+            {draft.eq.map((band, i) => (
+              <div key={i} className="grid grid-cols-[1.2fr_1fr_1fr_1fr_auto] gap-3 items-end">
+                <div className="space-y-2">
+                  <label className={labelClass}>Type</label>
+                  <select value={band.type} onChange={(e) => updateBand(i, { type: e.target.value as EqBandType })} className={inputClass}>
+                    {EQ_TYPES.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                  </select>
+                </div>
+                <NumberField label="Freq (Hz)" value={band.frequency} step={10} onChange={(frequency) => updateBand(i, { frequency })} />
+                <NumberField label="Gain (dB)" value={band.gain} step={0.5} onChange={(gain) => updateBand(i, { gain })} />
+                <NumberField label="Q" value={band.q} step={0.1} onChange={(q) => updateBand(i, { q })} />
+                <button onClick={() => update({ eq: draft.eq.filter((_, j) => j !== i) })} className="p-2 text-zinc-500 hover:text-red-400 transition-colors" title="Remove band">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Multiband */}
+          <div className="space-y-3 pt-4 border-t border-white/5">
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                <input type="checkbox" checked={!!multiband} onChange={(e) => update({ multiband: e.target.checked ? DEFAULT_MULTIBAND[3] : null })} className="accent-emerald-500" />
+                Multiband Compressor
+              </label>
+              {multiband && (
+                <select
+                  value={multiband.bands.length}
+                  onChange={(e) => update({ multiband: DEFAULT_MULTIBAND[parseInt(e.target.value)] })}
+                  className="bg-black border border-white/10 rounded-md px-1 py-0.5 text-xs font-mono text-white focus:border-emerald-500 outline-none"
+                >
+                  <option value={3}>3 bands</option>
+                  <option value={4}>4 bands</option>
+                </select>
+              )}
+            </div>
+            {multiband && (
+              <>
+                <div className="grid grid-cols-3 gap-4">
+                  {multiband.crossovers.map((frequency, i) => (
+                    <React.Fragment key={i}>
+                      <NumberField label={`Crossover ${i + 1} (Hz)`} value={frequency} step={10} onChange={(f) => updateCrossover(i, f)} />
+                    </React.Fragment>
+                  ))}
+                </div>
+                {multiband.bands.map((band, i) => (
+                  <div key={i} className="grid grid-cols-[auto_1fr_1fr_1fr_1fr] gap-3 items-end">
+                    <span className="pb-2.5 w-12 text-[10px] font-mono text-zinc-500">Band {i + 1}</span>
+                    <NumberField label="Threshold (dB)" value={band.threshold} step={1} onChange={(threshold) => updateMultibandBand(i, { threshold })} />
+                    <NumberField label="Ratio" value={band.ratio} step={0.5} onChange={(ratio) => updateMultibandBand(i, { ratio })} />
+                    <NumberField label="Attack (ms)" value={band.attack} step={1} onChange={(attack) => updateMultibandBand(i, { attack })} />
+                    <NumberField label="Release (ms)" value={band.release} step={10} onChange={(release) => updateMultibandBand(i, { release })} />
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+
+          {/* Compressor */}
+          <div className="space-y-3 pt-4 border-t border-white/5">
+            <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+              <input type="checkbox" checked={!!draft.compressor} onChange={(e) => update({ compressor: e.target.checked ? DEFAULT_COMPRESSOR : null })} className="accent-emerald-500" />
+              Compressor
+            </label>
+            {draft.compressor && (
+              <div className="grid grid-cols-3 gap-4">
+                <NumberField label="Threshold (dB)" value={draft.compressor.threshold} step={1} onChange={(threshold) => updateCompressor({ threshold })} />
+                <NumberField label="Ratio" value={draft.compressor.ratio} step={0.5} onChange={(ratio) => updateCompressor({ ratio })} />
+                <NumberField label="Ratio / 50% Intensity" value={draft.compressor.ratioScale} step={0.5} onChange={(ratioScale) => updateCompressor({ ratioScale })} />
+                <NumberField label="Knee (dB)" value={draft.compressor.knee} step={1} onChange={(knee) => updateCompressor({ knee })} />
+                <NumberField label="Attack (ms)" value={draft.compressor.attack} step={1} onChange={(attack) => updateCompressor({ attack })} />
+                <NumberField label="Release (ms)" value={draft.compressor.release} step={10} onChange={(release) => updateCompressor({ release })} />
+              </div>
+            )}
+          </div>
+
+          {/* Limiter & Loudness */}
+          <div className="grid grid-cols-3 gap-4 pt-4 border-t border-white/5">
+            <NumberField label="Target (LUFS)" value={draft.loudness.lufs} step={0.5} onChange={(lufs) => update({ loudness: { ...draft.loudness, lufs } })} />
+            <NumberField label="Ceiling (dBTP)" value={draft.limiter.ceiling} step={0.1} onChange={(ceiling) => update({ limiter: { ...draft.limiter, ceiling } })} />
+            <NumberField label="Release (ms)" value={draft.limiter.release} step={10} onChange={(release) => update({ limiter: { ...draft.limiter, release } })} />
+            <label className="col-span-3 flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+              <input type="checkbox" checked={draft.loudness.archival} onChange={(e) => update({ loudness: { ...draft.loudness, archival: e.target.checked } })} className="accent-emerald-500" />
+              Archival: keep headroom instead of limiting, 24-bit from hi-res sources
+            </label>
+          </div>
+
+          {/* Bass */}
+          <div className="space-y-3 pt-4 border-t border-white/5">
+            <h3 className={labelClass}>808 Defaults</h3>
+            <div className="grid grid-cols-3 gap-4">
+              <select value={draft.bass.impact} onChange={(e) => update({ bass: { ...draft.bass, impact: e.target.value as Preset['bass']['impact'] } })} className={inputClass}>
+                <option>Soft</option><option>Heavy</option><option>Savage</option>
+              </select>
+              <select value={draft.bass.punch} onChange={(e) => update({ bass: { ...draft.bass, punch: e.target.value as Preset['bass']['punch'] } })} className={inputClass}>
+                <option>Short</option><option>Tight</option><option>Long</option>
+              </select>
+              <select value={draft.bass.weight} onChange={(e) => update({ bass: { ...draft.bass, weight: e.target.value as Preset['bass']['weight'] } })} className={inputClass}>
+                <option>Low</option><option>Balanced</option><option>Deep</option>
+              </select>
+            </div>
+            <div className="flex gap-4">
+              <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                <input type="checkbox" checked={draft.bass.clubSafe} onChange={(e) => update({ bass: { ...draft.bass, clubSafe: e.target.checked } })} className="accent-emerald-500" />
+                Mono bass below
+                <select
+                  value={draft.bass.monoFrequency}
+                  onChange={(e) => update({ bass: { ...draft.bass, monoFrequency: parseInt(e.target.value) } })}
+                  disabled={!draft.bass.clubSafe}
+                  className="bg-black border border-white/10 rounded-md px-1 py-0.5 text-xs font-mono text-white focus:border-emerald-500 outline-none disabled:opacity-50"
+                >
+                  {[80, 100, 120, 150, 200].map(hz => <option key={hz} value={hz}>{hz}Hz</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                <input type="checkbox" checked={draft.bass.phoneSafe} onChange={(e) => update({ bass: { ...draft.bass, phoneSafe: e.target.checked } })} className="accent-emerald-500" />
+                Phone speaker safe
+              </label>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-white/5 flex items-center justify-between gap-4">
+          <p className="text-xs text-red-400 truncate">{error}</p>
+          <div className="flex gap-2 shrink-0">
+            <button onClick={onClose} className="px-4 py-1.5 bg-white/5 hover:bg-white/10 text-white text-sm font-medium rounded-lg transition-colors">Cancel</button>
+            <button onClick={handleSave} className="px-4 py-1.5 bg-emerald-500 text-black text-sm font-medium rounded-lg hover:bg-emerald-400 transition-colors">Save Preset</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
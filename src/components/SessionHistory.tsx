@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { FolderOpen, History, Loader2, Trash2, X } from 'lucide-react';
+import { deleteSession, listSessions, SessionSummary } from '../lib/session-store';
+
+interface SessionHistoryProps {
+  currentSessionId: string | null;
+  onOpen: (id: string) => void;
+  onClose: () => void;
+}
+
+export default function SessionHistory({ currentSessionId, onOpen, onClose }: SessionHistoryProps) {
+  const [sessions, setSessions] = useState<SessionSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    listSessions().then(setSessions).catch(e => setError(e instanceof Error ? e.message : String(e)));
+  };
+
+  useEffect(refresh, []);
+
+  const handleDelete = async (id: string) => {
+    await deleteSession(id);
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-8" onClick={onClose}>
+      <div className="w-full max-w-xl max-h-[80vh] bg-[#0a0a0a] rounded-xl border border-white/10 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-white/5 flex items-center justify-between">
+          <h2 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+            <History className="w-4 h-4" /> Session History
+          </h2>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-2 space-y-1 custom-scrollbar">
+          {error ? (
+            <p className="p-4 text-sm text-red-400">History is unavailable: {error}</p>
+          ) : !sessions ? (
+            <div className="flex items-center justify-center h-24"><Loader2 className="w-5 h-5 text-emerald-500 animate-spin" /></div>
+          ) : sessions.length === 0 ? (
+            <p className="p-4 text-sm text-zinc-500 text-center">No saved sessions yet. Sessions are saved as soon as tracks are analyzed.</p>
+          ) : sessions.map(session => (
+            <div key={session.id} className={`p-3 rounded-xl flex items-center gap-3 border ${session.id === currentSessionId ? 'bg-emerald-500/10 border-emerald-500/20' : 'border-transparent hover:bg-white/5'}`}>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-zinc-300 truncate">{session.name}</p>
+                <p className="text-[10px] text-zinc-500 font-mono">
+                  {new Date(session.updatedAt).toLocaleString()} · {session.trackCount} track{session.trackCount === 1 ? '' : 's'} · {session.masterCount} master{session.masterCount === 1 ? '' : 's'}
+                </p>
+              </div>
+              <button onClick={() => onOpen(session.id)} className="px-3 py-1.5 bg-white/5 hover:bg-white/10 text-white text-xs font-medium rounded-lg flex items-center gap-1.5 transition-colors">
+                <FolderOpen className="w-3.5 h-3.5" /> Open
+              </button>
+              <button onClick={() => handleDelete(session.id)} disabled={session.id === currentSessionId} className="p-1.5 text-zinc-500 hover:text-red-400 disabled:opacity-30 disabled:pointer-events-none transition-colors" title="Delete session">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
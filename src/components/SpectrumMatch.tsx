@@ -0,0 +1,48 @@
+import React from 'react';
+import { matchingCurve, MATCH_MAX_GAIN, spectralDifference, Spectrum } from '../lib/spectrum';
+
+interface SpectrumMatchProps {
+  track: Spectrum;
+  reference: Spectrum;
+  amount: number; // 0 to 100
+}
+
+const WIDTH = 280;
+const HEIGHT = 100;
+const RANGE = 12; // dB shown above and below 0
+const LABELS = [{ frequency: 100, text: '100' }, { frequency: 1000, text: '1k' }, { frequency: 10000, text: '10k' }];
+
+export default function SpectrumMatch({ track, reference, amount }: SpectrumMatchProps) {
+  const { frequencies } = track;
+  // Bands are log spaced, so frequency maps to x through its log position
+  const lowest = Math.log2(frequencies[0]), highest = Math.log2(frequencies[frequencies.length - 1]);
+  const x = (frequency: number) => (Math.log2(frequency) - lowest) / (highest - lowest) * WIDTH;
+  const y = (db: number) => HEIGHT / 2 - Math.max(-RANGE, Math.min(RANGE, db)) / RANGE * (HEIGHT / 2);
+  const line = (gains: number[]) => gains.map((g, i) => `${x(frequencies[i]).toFixed(1)},${y(g).toFixed(1)}`).join(' ');
+
+  const difference = spectralDifference(track, reference);
+  const correction = matchingCurve(track, reference, amount / 100).map(band => band.gain);
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-24 bg-black/60 rounded border border-white/5">
+        {[-MATCH_MAX_GAIN, MATCH_MAX_GAIN].map(db => (
+          <line key={db} x1={0} x2={WIDTH} y1={y(db)} y2={y(db)} className="stroke-white/5" strokeDasharray="2 3" />
+        ))}
+        <line x1={0} x2={WIDTH} y1={y(0)} y2={y(0)} className="stroke-white/15" />
+        {LABELS.map(label => (
+          <g key={label.frequency}>
+            <line x1={x(label.frequency)} x2={x(label.frequency)} y1={0} y2={HEIGHT} className="stroke-white/5" />
+            <text x={x(label.frequency) + 2} y={HEIGHT - 3} className="fill-zinc-600 text-[8px] font-mono">{label.text}</text>
+          </g>
+        ))}
+        <polyline points={line(difference)} fill="none" className="stroke-zinc-500" strokeWidth={1} />
+        <polyline points={line(correction)} fill="none" className="stroke-emerald-400" strokeWidth={1.5} />
+      </svg>
+      <div className="flex justify-between text-[10px] font-mono text-zinc-500">
+        <span><span className="text-zinc-400">—</span> Difference to reference</span>
+        <span><span className="text-emerald-400">—</span> Applied EQ (±{MATCH_MAX_GAIN} dB)</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import React from 'react';
+import { RotateCcw, Wand2 } from 'lucide-react';
+import { BassSettings, MasteringSettings } from '../lib/mastering-engine';
+import { Preset } from '../lib/presets';
+import { Adaptation, hasOverrides, TrackOverrides } from '../lib/track-settings';
+
+interface TrackSettingsProps {
+  name: string;
+  global: MasteringSettings;
+  presets: Preset[];
+  overrides: TrackOverrides;
+  resolved: MasteringSettings;
+  adaptations: Adaptation[];
+  disabled: boolean;
+  onChange: (overrides: TrackOverrides) => void;
+}
+
+const BASS_CHOICES = [
+  { key: 'impact', label: 'Impact', options: ['Soft', 'Heavy', 'Savage'] },
+  { key: 'punch', label: 'Shape', options: ['Short', 'Tight', 'Long'] },
+  { key: 'weight', label: 'Sub Weight', options: ['Low', 'Balanced', 'Deep'] },
+] as const;
+
+const selectClass = 'w-full bg-black border border-white/10 rounded-lg p-1.5 text-[11px] text-white focus:border-emerald-500 outline-none disabled:opacity-50';
+const labelClass = 'text-[10px] uppercase tracking-wider text-zinc-500 font-semibold';
+
+export default function TrackSettings({ name, global, presets, overrides, resolved, adaptations, disabled, onChange }: TrackSettingsProps) {
+  const setBass = (key: keyof BassSettings, value: string) => {
+    const { [key]: _, ...rest } = overrides.bassSettings ?? {};
+    onChange({ ...overrides, bassSettings: value === '' ? rest : { ...rest, [key]: value } });
+  };
+
+  return (
+    <div className="p-4 border-t border-white/5 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className={`${labelClass} truncate`} title={name}>Track Settings</h3>
+        {hasOverrides(overrides) && (
+          <button onClick={() => onChange({})} disabled={disabled} className="text-[10px] text-zinc-400 hover:text-white flex items-center gap-1 disabled:opacity-50 transition-colors">
+            <RotateCcw className="w-3 h-3" /> Use global
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <label className={labelClass}>Preset</label>
+          <select
+            value={overrides.preset?.id ?? ''}
+            onChange={(e) => onChange({ ...overrides, preset: presets.find(p => p.id === e.target.value) })}
+            disabled={disabled}
+            className={selectClass}
+          >
+            <option value="">Global ({global.preset.name})</option>
+            {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <div className="flex justify-between items-center">
+            <label className={labelClass}>Intensity</label>
+            <span className={`text-[10px] font-mono ${overrides.intensity !== undefined ? 'text-emerald-500' : 'text-zinc-500'}`}>{resolved.intensity}%</span>
+          </div>
+          <input
+            type="range" min="0" max="100" value={resolved.intensity}
+            onChange={(e) => onChange({ ...overrides, intensity: parseInt(e.target.value) })}
+            onDoubleClick={() => onChange({ ...overrides, intensity: undefined })}
+            disabled={disabled}
+            title="Double-click to inherit"
+            className="w-full accent-emerald-500 h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+          />
+        </div>
+        {BASS_CHOICES.map(choice => (
+          <div key={choice.key} className="space-y-1">
+            <label className={labelClass}>{choice.label}</label>
+            <select
+              value={overrides.bassSettings?.[choice.key] ?? ''}
+              onChange={(e) => setBass(choice.key, e.target.value)}
+              disabled={disabled}
+              className={selectClass}
+            >
+              <option value="">Global ({global.bassSettings[choice.key]})</option>
+              {choice.options.map(option => <option key={option}>{option}</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      {adaptations.length > 0 && (
+        <div className="space-y-1.5">
+          <h4 className={`${labelClass} flex items-center gap-1.5`}><Wand2 className="w-3 h-3" /> Auto-Adapted</h4>
+          {adaptations.map(a => (
+            <div key={a.setting} className="text-[11px]">
+              <p className="font-mono text-zinc-300">{a.setting}: {a.from} → <span className="text-emerald-400">{a.to}</span></p>
+              <p className="text-[10px] text-zinc-500">{a.reason}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ABPlayer, ABTrack } from '../lib/ab-player';
+import { measureLoudnessCurve } from '../lib/audio-processor';
+import { getChannels, LoudnessCurve } from '../lib/loudness';
+import { waveformPeaks } from '../lib/waveform';
+
+interface WaveformPlayerProps {
+  player: ABPlayer;
+  original: AudioBuffer;
+  processed: AudioBuffer;
+  active: ABTrack;
+  playing: boolean;
+  trim: number; // dB applied to the active version, added to the loudness readout
+  blind: boolean; // Hide everything that tells the versions apart
+}
+
+const POINTS = 200;
+const SPECTRUM_BARS = 48;
+const SPECTRUM_RANGE: [number, number] = [30, 16000]; // Hz
+const SPECTRUM_FLOOR = -90; // dBFS shown at the bottom of the meter
+const SPECTRUM_CEILING = -10;
+
+const LANES: { track: ABTrack; label: string; color: string }[] = [
+  { track: 'original', label: 'Orig', color: 'fill-zinc-500' },
+  { track: 'processed', label: 'Master', color: 'fill-emerald-500' },
+];
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+const formatLufs = (value: number | undefined) => value !== undefined && Number.isFinite(value) && value > -70 ? value.toFixed(1) : '—';
+
+// Mirrored bars around the centre line, one per peak, as a single path
+function waveformPath(peaks: Float32Array): string {
+  return Array.from(peaks, (peak, i) => {
+    const h = Math.max(0.5, peak * 50);
+    return `M${i} ${(50 - h).toFixed(1)}h0.8v${(2 * h).toFixed(1)}h-0.8z`;
+  }).join('');
+}
+
+function drawSpectrum(canvas: HTMLCanvasElement, analyser: AnalyserNode | null, color: string) {
+  const width = canvas.clientWidth * devicePixelRatio, height = canvas.clientHeight * devicePixelRatio;
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.clearRect(0, 0, width, height);
+  if (!analyser) return;
+
+  const data = new Float32Array(analyser.frequencyBinCount);
+  analyser.getFloatFrequencyData(data);
+  const binWidth = analyser.context.sampleRate / analyser.fftSize;
+  const [low, high] = SPECTRUM_RANGE;
+  const barWidth = width / SPECTRUM_BARS;
+  ctx.fillStyle = color;
+  for (let b = 0; b < SPECTRUM_BARS; b++) {
+    // Log-spaced bands; each bar shows the loudest bin it covers
+    const from = low * Math.pow(high / low, b / SPECTRUM_BARS), to = low * Math.pow(high / low, (b + 1) / SPECTRUM_BARS);
+    let level = -Infinity;
+    for (let k = Math.floor(from / binWidth); k <= Math.ceil(to / binWidth) && k < data.length; k++) level = Math.max(level, data[k]);
+    const fraction = Math.max(0, Math.min(1, (level - SPECTRUM_FLOOR) / (SPECTRUM_CEILING - SPECTRUM_FLOOR)));
+    ctx.fillRect(b * barWidth + 1, height * (1 - fraction), barWidth - 2, height * fraction);
+  }
+}
+
+/**
+ * Waveform overviews of the original and the master with a shared
+ * playhead, click-to-seek and a live spectrum and loudness readout. In blind
+ * mode only the playhead and a neutral spectrum are shown.
+ */
+export default function WaveformPlayer({ player, original, processed, active, playing, trim, blind }: WaveformPlayerProps) {
+  const [position, setPosition] = useState(0);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  const peaks = useMemo(() => ({
+    original: waveformPeaks(getChannels(original), POINTS),
+    processed: waveformPeaks(getChannels(processed), POINTS),
+  }), [original, processed]);
+  // Metered on a worker; the readout shows dashes until it arrives
+  const [loudness, setLoudness] = useState<Record<ABTrack, LoudnessCurve> | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoudness(null);
+    Promise.all([measureLoudnessCurve(original, controller.signal), measureLoudnessCurve(processed, controller.signal)])
+      .then(([originalCurve, processedCurve]) => setLoudness({ original: originalCurve, processed: processedCurve }))
+      .catch(() => undefined);
+    return () => controller.abort();
+  }, [original, processed]);
+
+  useEffect(() => {
+    setPosition(player.currentTime);
+    const canvas = canvasRef.current;
+    const color = active === 'processed' && !blind ? 'rgba(16, 185, 129, 0.7)' : 'rgba(161, 161, 170, 0.7)';
+    if (!playing) {
+      if (canvas) drawSpectrum(canvas, null, color);
+      return;
+    }
+    let frame = requestAnimationFrame(function tick() {
+      setPosition(player.currentTime);
+      if (canvas) drawSpectrum(canvas, player.analyser, color);
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [player, playing, active, blind, original, processed]);
+
+  const duration = player.duration;
+  const progress = duration > 0 ? position / duration : 0;
+  const curve = loudness?.[active];
+  const step = curve ? Math.min(curve.momentary.length - 1, Math.floor(position / curve.step)) : 0;
+
+  const seek = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    player.seek((e.clientX - rect.left) / rect.width * duration);
+    setPosition(player.currentTime);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative cursor-pointer select-none space-y-1" onClick={seek}>
+        {blind ? (
+          <div className="relative h-8 bg-black/60 rounded border border-white/5 overflow-hidden">
+            <div className="absolute inset-y-0 left-0 bg-white/5" style={{ width: `${progress * 100}%` }} />
+          </div>
+        ) : LANES.map(lane => (
+          <div key={lane.track} className={`relative h-8 bg-black/60 rounded border border-white/5 overflow-hidden transition-opacity ${lane.track === active ? 'opacity-100' : 'opacity-40'}`}>
+            <svg viewBox={`0 0 ${POINTS} 100`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full">
+              <path d={waveformPath(peaks[lane.track])} className={lane.color} />
+            </svg>
+            <div className="absolute inset-y-0 left-0 bg-white/5" style={{ width: `${progress * 100}%` }} />
+            <span className="absolute left-1 top-0.5 text-[9px] font-mono text-zinc-500">{lane.label}</span>
+          </div>
+        ))}
+        <div className="absolute inset-y-0 w-px bg-white pointer-events-none" style={{ left: `${progress * 100}%` }} />
+      </div>
+      <div className="flex justify-between text-[10px] font-mono text-zinc-500">
+        <span>{formatTime(position)} / {formatTime(duration)}</span>
+        {!blind && (
+          <span title="Momentary (400 ms) and short-term (3 s) loudness of the track you hear">
+            M <span className="text-zinc-300">{formatLufs(curve && curve.momentary[step] + trim)}</span> · S <span className="text-zinc-300">{formatLufs(curve && curve.shortTerm[step] + trim)}</span> LUFS
+          </span>
+        )}
+      </div>
+      <canvas ref={canvasRef} className="w-full h-12 bg-black/60 rounded border border-white/5" />
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { dbToLinear } from './loudness';
+
+export type ABTrack = 'original' | 'processed';
+
+// Time constant of the A/B crossfade; short enough to sound instant without a click
+const SWITCH_TIME_CONSTANT = 0.003; // s
+
+/**
+ * Plays an original and its master in lockstep through Web Audio. Both sources
+ * start on the same context frame from the same offset, so switching A/B only
+ * moves gain between them: no reload, no gap, no drift.
+ */
+export class ABPlayer {
+  private context: AudioContext | null = null;
+  private gains: Record<ABTrack, GainNode> | null = null;
+  private meter: AnalyserNode | null = null;
+  private buffers: Record<ABTrack, AudioBuffer> | null = null;
+  private sources: AudioBufferSourceNode[] = [];
+  private startedAt = 0; // Context time at which offset 0 played
+  private offset = 0; // Position while paused, s
+  private active: ABTrack = 'processed';
+  private trims: Record<ABTrack, number> = { original: 0, processed: 0 }; // dB
+  onEnded: () => void = () => {};
+
+  private ensureContext() {
+    if (this.context && this.gains && this.meter) return { context: this.context, gains: this.gains, meter: this.meter };
+    const AudioContextCtor = window.AudioContext || (window as any).webkitAudioContext;
+    const context: AudioContext = new AudioContextCtor();
+    const meter = context.createAnalyser();
+    meter.fftSize = 4096;
+    meter.smoothingTimeConstant = 0.75;
+    meter.connect(context.destination);
+    const gain = (track: ABTrack) => {
+      const node = context.createGain();
+      node.gain.value = this.level(track);
+      node.connect(meter);
+      return node;
+    };
+    this.context = context;
+    this.gains = { original: gain('original'), processed: gain('processed') };
+    this.meter = meter;
+    return { context, gains: this.gains, meter };
+  }
+
+  /** Analyser on the audible output, for live metering. */
+  get analyser(): AnalyserNode {
+    return this.ensureContext().meter;
+  }
+
+  get playing() {
+    return this.sources.length > 0;
+  }
+
+  get duration() {
+    return this.buffers ? Math.max(this.buffers.original.duration, this.buffers.processed.duration) : 0;
+  }
+
+  get currentTime() {
+    if (!this.playing || !this.context) return this.offset;
+    return Math.max(0, Math.min(this.duration, this.context.currentTime - this.startedAt));
+  }
+
+  /**
+   * Swaps in a new pair. Playback continues from the same position when
+   * `keepPosition` is set (a re-render of the same track), else stops at 0.
+   */
+  load(original: AudioBuffer, processed: AudioBuffer, keepPosition = false) {
+    const wasPlaying = this.playing;
+    const position = keepPosition ? this.currentTime : 0;
+    this.stopSources();
+    this.buffers = { original, processed };
+    this.offset = Math.min(position, this.duration);
+    if (keepPosition && wasPlaying) this.play();
+  }
+
+  play() {
+    if (!this.buffers || this.playing) return;
+    const { context, gains } = this.ensureContext();
+    if (context.state === 'suspended') context.resume();
+    if (this.offset >= this.duration) this.offset = 0;
+
+    // Scheduled slightly ahead so both sources start on the same frame
+    const when = context.currentTime + 0.02;
+    const longest: ABTrack = this.buffers.original.duration > this.buffers.processed.duration ? 'original' : 'processed';
+    this.sources = (['original', 'processed'] as const).map(track => {
+      const source = context.createBufferSource();
+      source.buffer = this.buffers![track];
+      source.connect(gains[track]);
+      source.start(when, Math.min(this.offset, source.buffer.duration));
+      if (track === longest) {
+        // Cleared by stopSources, so only fires when the track plays out
+        source.onended = () => {
+          this.stopSources();
+          this.offset = 0;
+          this.onEnded();
+        };
+      }
+      return source;
+    });
+    this.startedAt = when - this.offset;
+  }
+
+  pause() {
+    if (!this.playing) return;
+    this.offset = this.currentTime;
+    this.stopSources();
+  }
+
+  seek(time: number) {
+    const wasPlaying = this.playing;
+    this.stopSources();
+    this.offset = Math.max(0, Math.min(this.duration, time));
+    if (wasPlaying) this.play();
+  }
+
+  setActive(track: ABTrack) {
+    this.active = track;
+    this.applyLevels();
+  }
+
+  /** Playback gain (dB) per version, e.g. for loudness matching. */
+  setTrims(trims: Record<ABTrack, number>) {
+    this.trims = trims;
+    this.applyLevels();
+  }
+
+  close() {
+    this.stopSources();
+    this.context?.close();
+    this.context = null;
+    this.gains = null;
+    this.meter = null;
+  }
+
+  private level(track: ABTrack) {
+    return track === this.active ? dbToLinear(this.trims[track]) : 0;
+  }
+
+  private applyLevels() {
+    if (!this.context || !this.gains) return;
+    const now = this.context.currentTime;
+    (['original', 'processed'] as const).forEach(track => {
+      const { gain } = this.gains![track];
+      gain.cancelScheduledValues(now);
+      gain.setTargetAtTime(this.level(track), now, SWITCH_TIME_CONSTANT);
+    });
+  }
+
+  private stopSources() {
+    const sources = this.sources;
+    this.sources = [];
+    for (const source of sources) {
+      source.onended = null;
+      source.stop();
+      source.disconnect();
+    }
+  }
+}
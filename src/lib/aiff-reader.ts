@@ -0,0 +1,147 @@
+import { Id3Tags, readId3Tags } from './id3';
+
+export interface AiffFormat {
+  compression: string; // AIFF-C compression type; 'NONE' for plain AIFF
+  numChannels: number;
+  sampleRate: number;
+  bitDepth: number;
+}
+
+export interface AiffFile {
+  format: AiffFormat;
+  channels: Float32Array[];
+  tags: Id3Tags | null;
+}
+
+// Compression types read here; anything else is left to the browser decoder
+const PCM_BIG_ENDIAN = ['NONE', 'twos'];
+const PCM_LITTLE_ENDIAN = ['sowt'];
+const FLOAT_32 = ['fl32', 'FL32'];
+const FLOAT_64 = ['fl64', 'FL64'];
+const G711 = ['ulaw', 'ULAW', 'alaw', 'ALAW'];
+
+function fourCC(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+export function isAiff(data: ArrayBuffer): boolean {
+  const view = new DataView(data);
+  return view.byteLength >= 12 && fourCC(view, 0) === 'FORM' && ['AIFF', 'AIFC'].includes(fourCC(view, 8));
+}
+
+// 80-bit IEEE 754 extended precision, as used for the COMM sample rate
+function readExtended(view: DataView, offset: number): number {
+  const exponent = view.getUint16(offset) & 0x7fff;
+  const sign = view.getUint16(offset) & 0x8000 ? -1 : 1;
+  const mantissa = view.getUint32(offset + 2) * 2 ** 32 + view.getUint32(offset + 6);
+  if (exponent === 0 && mantissa === 0) return 0;
+  return sign * mantissa * 2 ** (exponent - 16383 - 63);
+}
+
+// G.711 expansion to 16-bit linear, then scaled to -1..1
+function ulaw(byte: number): number {
+  const u = ~byte & 0xff;
+  const magnitude = ((((u & 0x0f) << 3) + 0x84) << ((u & 0x70) >> 4)) - 0x84;
+  return (u & 0x80 ? -magnitude : magnitude) / 32768;
+}
+
+function alaw(byte: number): number {
+  const a = byte ^ 0x55;
+  const exponent = (a & 0x70) >> 4;
+  let magnitude = (a & 0x0f) << 4;
+  magnitude = exponent === 0 ? magnitude + 8 : (magnitude + 0x108) << (exponent - 1);
+  return (a & 0x80 ? magnitude : -magnitude) / 32768;
+}
+
+function sampleReader(view: DataView, format: AiffFormat): ((offset: number) => number) | null {
+  const { compression, bitDepth } = format;
+  if (FLOAT_32.includes(compression)) return offset => view.getFloat32(offset);
+  if (FLOAT_64.includes(compression)) return offset => view.getFloat64(offset);
+  if (G711.includes(compression)) return compression.toLowerCase() === 'ulaw' ? offset => ulaw(view.getUint8(offset)) : offset => alaw(view.getUint8(offset));
+  const littleEndian = PCM_LITTLE_ENDIAN.includes(compression);
+  if (!littleEndian && !PCM_BIG_ENDIAN.includes(compression)) return null;
+
+  // Samples are left-justified in whole bytes, so read the container and scale by its size
+  const bytes = Math.ceil(bitDepth / 8);
+  switch (bytes) {
+    case 1: return offset => view.getInt8(offset) / 128;
+    case 2: return offset => view.getInt16(offset, littleEndian) / 32768;
+    case 3: return littleEndian
+      ? offset => ((view.getInt8(offset + 2) << 16) | view.getUint16(offset, true)) / 8388608
+      : offset => ((view.getInt8(offset) << 16) | view.getUint16(offset + 1)) / 8388608;
+    case 4: return offset => view.getInt32(offset, littleEndian) / 2147483648;
+    default: return null;
+  }
+}
+
+// Bytes per sample in the SSND chunk
+function sampleSize(format: AiffFormat): number {
+  if (FLOAT_64.includes(format.compression)) return 8;
+  if (FLOAT_32.includes(format.compression)) return 4;
+  if (G711.includes(format.compression)) return 1;
+  return Math.ceil(format.bitDepth / 8);
+}
+
+/**
+ * Decodes an AIFF or AIFF-C file: big- and little-endian PCM, 32/64-bit float
+ * and G.711. Returns null for other compression types; throws on a malformed
+ * file.
+ */
+export function readAiff(data: ArrayBuffer): AiffFile | null {
+  if (!isAiff(data)) return null;
+  const view = new DataView(data);
+  const isAifc = fourCC(view, 8) === 'AIFC';
+  let format: AiffFormat | null = null;
+  let frames = 0;
+  let soundOffset = -1;
+  let soundSize = 0;
+  const tags: Id3Tags = {};
+  let id3: Id3Tags | null = null;
+
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const id = fourCC(view, offset);
+    const size = Math.min(view.getUint32(offset + 4), view.byteLength - offset - 8);
+    const body = offset + 8;
+    if (id === 'COMM' && size >= 18) {
+      frames = view.getUint32(body + 2);
+      format = {
+        compression: isAifc && size >= 22 ? fourCC(view, body + 18) : 'NONE',
+        numChannels: view.getInt16(body),
+        sampleRate: readExtended(view, body + 8),
+        bitDepth: view.getInt16(body + 6),
+      };
+    } else if (id === 'SSND' && size >= 8) {
+      soundOffset = body + 8 + view.getUint32(body);
+      soundSize = size - 8 - view.getUint32(body);
+    } else if (id === 'NAME' || id === 'AUTH' || id === 'ANNO') {
+      const text = new TextDecoder('latin1').decode(new Uint8Array(data, body, size)).replace(/\0+$/, '').trim();
+      if (text) tags[id === 'NAME' ? 'title' : id === 'AUTH' ? 'artist' : 'comment'] = text;
+    } else if (id === 'ID3 ' || id === 'id3 ') {
+      id3 = readId3Tags(data, body);
+    }
+    offset += 8 + size + (size % 2);
+  }
+
+  if (!format) throw new Error('Missing COMM chunk');
+  if (format.numChannels < 1 || !(format.sampleRate > 0)) throw new Error('Invalid COMM chunk');
+  const read = sampleReader(view, format);
+  if (!read) return null;
+  if (soundOffset < 0) throw new Error('Missing SSND chunk');
+
+  const frameSize = sampleSize(format) * format.numChannels;
+  const length = Math.min(frames, Math.floor(Math.max(0, soundSize) / frameSize));
+  const channels = Array.from({ length: format.numChannels }, () => new Float32Array(length));
+  for (let i = 0; i < length; i++) {
+    for (let ch = 0; ch < format.numChannels; ch++) {
+      channels[ch][i] = read(soundOffset + i * frameSize + ch * (frameSize / format.numChannels));
+    }
+  }
+  const merged = { ...tags, ...id3 };
+  return { format, channels, tags: Object.keys(merged).length ? merged : null };
+}
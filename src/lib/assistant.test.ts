@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { AssistantError, AssistantInput, LocalAssistant, parseSuggestion, suggestMastering } from './assistant';
+import type { AudioAnalysis } from './audio-processor';
+import { BUILT_IN_PRESETS } from './presets';
+
+const analysis: AudioAnalysis = {
+  lufs: -12,
+  shortTermMax: -9,
+  momentaryMax: -8,
+  truePeak: -0.5,
+  dynamicRange: 6,
+  crestFactor: 11,
+  bandLevels: { sub: -8, bass: -6, lowMid: -9, mid: -10, presence: -14, air: -20, ultra: -40 },
+  spectrum: { frequencies: [], levels: [] },
+  clipping: false,
+  bassBalance: 'Good',
+  stereoWidth: 'Good',
+  aiArtifacts: false,
+  issues: [],
+  fixes: [],
+};
+
+const valid = {
+  presetId: 'club_bass',
+  intensity: 62.4,
+  bass: { impact: 'Savage', punch: 'Long', weight: 'Deep', clubSafe: true, monoFrequency: 120, phoneSafe: false },
+  rationale: '  Heavy 808s for the club.  ',
+};
+
+const parse = (value: unknown) => parseSuggestion(value, BUILT_IN_PRESETS, 'Test model');
+
+describe('parseSuggestion', () => {
+  it('accepts a suggestion in range', () => {
+    expect(parse(valid)).toEqual({
+      preset: BUILT_IN_PRESETS.find(p => p.id === 'club_bass'),
+      intensity: 62,
+      bassSettings: valid.bass,
+      rationale: 'Heavy 808s for the club.',
+      model: 'Test model',
+    });
+  });
+
+  it.each([null, 'club_bass', [valid]])('rejects %j as a suggestion', value => {
+    expect(() => parse(value)).toThrow(AssistantError);
+  });
+
+  it('rejects a preset that is not in the library', () => {
+    expect(() => parse({ ...valid, presetId: 'lofi_tape' })).toThrow('unknown preset (lofi_tape)');
+  });
+
+  it.each([-1, 101, NaN, Infinity, '50', undefined])('rejects an intensity of %s', intensity => {
+    expect(() => parse({ ...valid, intensity })).toThrow('intensity outside 0-100');
+  });
+
+  it.each([
+    ['a missing bass object', undefined],
+    ['an unknown impact', { ...valid.bass, impact: 'Brutal' }],
+    ['a mono frequency out of range', { ...valid.bass, monoFrequency: 1000 }],
+    ['a missing switch', { ...valid.bass, clubSafe: undefined }],
+  ])('rejects %s', (_, bass) => {
+    expect(() => parse({ ...valid, bass })).toThrow(/invalid bass settings: bass/);
+  });
+
+  it.each([undefined, '', '   ', 42])('rejects a rationale of %j', rationale => {
+    expect(() => parse({ ...valid, rationale })).toThrow('no rationale');
+  });
+
+  it('truncates a long rationale', () => {
+    const { rationale } = parse({ ...valid, rationale: 'x'.repeat(1000) });
+    expect(rationale).toHaveLength(600);
+    expect(rationale.endsWith('…')).toBe(true);
+  });
+});
+
+describe('LocalAssistant', () => {
+  const model = new LocalAssistant();
+  const input = (brief: string, overrides: Partial<AudioAnalysis> = {}): AssistantInput =>
+    ({ analysis: { ...analysis, ...overrides }, brief, presets: BUILT_IN_PRESETS });
+
+  it.each([
+    ['Heavy sub for the club, slam it', 'club_bass'],
+    ['Gentle, open master for vinyl', 'high_res'],
+    ['Punchy drill for TikTok and phones', 'tiktok_trap'],
+    ['Spotify release', 'youtube_rap'],
+    ['', 'youtube_rap'],
+  ])('makes a valid suggestion for "%s"', async (brief, presetId) => {
+    const raw = await model.suggest(input(brief));
+    const suggestion = parseSuggestion(raw, BUILT_IN_PRESETS, model.name);
+    expect(suggestion.preset.id).toBe(presetId);
+    expect(suggestion.rationale).not.toBe('');
+  });
+
+  it('stays valid when the analysis has no crest factor', async () => {
+    const suggestion = await suggestMastering(model, input('Loud and aggressive', { crestFactor: -Infinity, bassBalance: 'Heavy' }));
+    expect(suggestion.intensity).toBeGreaterThanOrEqual(10);
+    expect(suggestion.intensity).toBeLessThanOrEqual(90);
+  });
+
+  it('needs presets to choose from', async () => {
+    await expect(suggestMastering(model, { ...input('Spotify'), presets: [] })).rejects.toThrow(AssistantError);
+  });
+});
@@ -0,0 +1,158 @@
+import type { AudioAnalysis } from './audio-processor';
+import type { BassSettings } from './mastering-engine';
+import { parseBassSettings, Preset, PresetError } from './presets';
+
+/** What the assistant is asked: the measured track, the user's brief and the presets it may pick from. */
+export interface AssistantInput {
+  analysis: AudioAnalysis;
+  brief: string;
+  presets: Preset[];
+}
+
+/**
+ * A language model (or stand-in) that proposes settings. It returns the raw
+ * suggestion, shaped like suggestionSchema; suggestMastering validates it.
+ */
+export interface AssistantModel {
+  readonly name: string;
+  suggest(input: AssistantInput, signal?: AbortSignal): Promise<unknown>;
+}
+
+export interface MasteringSuggestion {
+  preset: Preset;
+  intensity: number; // 0 to 100
+  bassSettings: BassSettings;
+  rationale: string;
+  model: string; // Name of the model that proposed it
+}
+
+export class AssistantError extends Error {}
+
+const IMPACTS = ['Soft', 'Heavy', 'Savage'] as const;
+const PUNCHES = ['Short', 'Tight', 'Long'] as const;
+const WEIGHTS = ['Low', 'Balanced', 'Deep'] as const;
+const MAX_RATIONALE = 600;
+
+// JSON schema of a raw suggestion; the preset id list is filled in per request
+export function suggestionSchema(presetIds: string[]) {
+  return {
+    type: 'object',
+    properties: {
+      presetId: { type: 'string', enum: presetIds },
+      intensity: { type: 'integer', minimum: 0, maximum: 100 },
+      bass: {
+        type: 'object',
+        properties: {
+          impact: { type: 'string', enum: IMPACTS },
+          punch: { type: 'string', enum: PUNCHES },
+          weight: { type: 'string', enum: WEIGHTS },
+          clubSafe: { type: 'boolean' },
+          monoFrequency: { type: 'number', minimum: 40, maximum: 400 },
+          phoneSafe: { type: 'boolean' },
+        },
+        required: ['impact', 'punch', 'weight', 'clubSafe', 'monoFrequency', 'phoneSafe'],
+      },
+      rationale: { type: 'string' },
+    },
+    required: ['presetId', 'intensity', 'bass', 'rationale'],
+  };
+}
+
+/**
+ * Checks a raw suggestion against the preset library and the settings' ranges.
+ * Throws an AssistantError naming the first problem.
+ */
+export function parseSuggestion(value: unknown, presets: Preset[], model: string): MasteringSuggestion {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new AssistantError('The assistant did not return a suggestion');
+  const json = value as Record<string, unknown>;
+
+  const preset = presets.find(p => p.id === json.presetId);
+  if (!preset) throw new AssistantError(`The assistant picked an unknown preset (${String(json.presetId)})`);
+  if (typeof json.intensity !== 'number' || !Number.isFinite(json.intensity) || json.intensity < 0 || json.intensity > 100) {
+    throw new AssistantError('The assistant returned an intensity outside 0-100');
+  }
+  let bassSettings: BassSettings;
+  try {
+    bassSettings = parseBassSettings(json.bass);
+  } catch (e) {
+    if (e instanceof PresetError) throw new AssistantError(`The assistant returned invalid bass settings: ${e.message}`);
+    throw e;
+  }
+  const rationale = typeof json.rationale === 'string' ? json.rationale.trim() : '';
+  if (!rationale) throw new AssistantError('The assistant gave no rationale');
+
+  return {
+    preset,
+    intensity: Math.round(json.intensity),
+    bassSettings,
+    rationale: rationale.length > MAX_RATIONALE ? `${rationale.slice(0, MAX_RATIONALE - 1)}…` : rationale,
+    model,
+  };
+}
+
+export async function suggestMastering(model: AssistantModel, input: AssistantInput, signal?: AbortSignal): Promise<MasteringSuggestion> {
+  if (input.presets.length === 0) throw new AssistantError('There are no presets to choose from');
+  return parseSuggestion(await model.suggest(input, signal), input.presets, model.name);
+}
+
+// Local stand-in
+
+// Brief keywords that point at a built-in preset, strongest first
+const PRESET_KEYWORDS: { id: string; pattern: RegExp }[] = [
+  { id: 'club_bass', pattern: /\b(club|car|cars|trunk|subwoofer|festival)\b/ },
+  { id: 'tiktok_trap', pattern: /\b(tiktok|reels?|shorts|phone|phones|social)\b/ },
+  { id: 'high_res', pattern: /\b(archiv\w*|hi-?res|audiophile|vinyl|jazz|classical|acoustic|dynamic)\b/ },
+  { id: 'youtube_rap', pattern: /\b(youtube|stream\w*|spotify|rap|hip-?hop)\b/ },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Rule-based assistant that reads the brief's keywords and the analysis. Used
+ * when no API key is configured, and anywhere a deterministic model is needed.
+ */
+export class LocalAssistant implements AssistantModel {
+  readonly name = 'Local rules';
+
+  async suggest({ analysis, brief, presets }: AssistantInput): Promise<unknown> {
+    const text = brief.toLowerCase();
+    const reasons: string[] = [];
+
+    // A custom preset named in the brief wins over keyword matches
+    const named = presets.find(p => text.includes(p.name.toLowerCase()));
+    const keyword = PRESET_KEYWORDS.find(k => k.pattern.test(text) && presets.some(p => p.id === k.id));
+    const preset = named ?? presets.find(p => p.id === keyword?.id) ?? presets.find(p => p.id === 'youtube_rap') ?? presets[0];
+    reasons.push(named || keyword ? `The brief points to ${preset.name}.` : `Nothing in the brief names a destination, so ${preset.name} is the starting point.`);
+
+    let intensity = 50;
+    if (/\b(aggressive|loud|hard|slam\w*|in your face)\b/.test(text)) intensity += 15;
+    if (/\b(gentle|subtle|light|soft|natural|open)\b/.test(text)) intensity -= 15;
+    // Dense mixes have less left to give; dynamic ones can take more
+    const crest = Number.isFinite(analysis.crestFactor) ? analysis.crestFactor : null;
+    if (crest !== null && crest < 8) intensity -= 10;
+    if (crest !== null && crest > 14) intensity += 10;
+    intensity = clamp(Math.round(intensity / 5) * 5, 10, 90);
+    reasons.push(crest !== null ? `Crest factor is ${crest.toFixed(1)} dB, so intensity is ${intensity}%.` : `Intensity is ${intensity}%.`);
+
+    const bass: BassSettings = { ...preset.bass };
+    if (/\b(heavy|huge|big|deep)\s+(sub|bass|808s?)\b|\bsub-?heavy\b/.test(text)) {
+      bass.weight = 'Deep';
+      bass.impact = 'Savage';
+    }
+    if (/\b(drill|slid\w*|glid\w*)\b/.test(text)) bass.punch = 'Long';
+    if (/\b(tight|punchy|knock\w*)\b/.test(text)) bass.punch = 'Tight';
+    if (/\bdark\b/.test(text) && bass.weight === 'Low') bass.weight = 'Balanced';
+    if (analysis.bassBalance === 'Heavy' && bass.impact !== 'Soft') {
+      bass.impact = bass.impact === 'Savage' ? 'Heavy' : 'Soft';
+      reasons.push('The low end already measures heavy, so the 808 boost is held back.');
+    } else if (analysis.bassBalance === 'Weak' && bass.impact === 'Soft') {
+      bass.impact = 'Heavy';
+      reasons.push('The low end measures weak, so the 808 boost is raised.');
+    }
+    if (/\b(club|car|cars|trunk|subwoofer)\b/.test(text)) bass.clubSafe = true;
+    if (/\b(phone|phones|laptop|tiktok|earbuds)\b/.test(text)) bass.phoneSafe = true;
+    reasons.push(`808: ${bass.impact} impact, ${bass.punch.toLowerCase()} shape, ${bass.weight.toLowerCase()} weight.`);
+
+    return { presetId: preset.id, intensity, bass, rationale: reasons.join(' ') };
+  }
+}
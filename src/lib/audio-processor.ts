@@ -1,19 +1,34 @@
-import { audioBufferToWav } from './audio-utils';
+import { getChannels, LoudnessCurve } from './loudness';
+import { BandName } from './signal-analysis';
+import { Spectrum } from './spectrum';
+import { EngineOptions, MasteringOutput, masterBitDepth, Preset, BassSettings } from './mastering-engine';
+import { encodeWav } from './audio-utils';
+import { readWavFormat, readWavMetadata } from './wav-reader';
+import { DecodeError } from './decoder';
+import { readId3Tags } from './id3';
+import { WavMetadata } from './wav-metadata';
+import { WorkerPool } from './worker-pool';
+import { measureDeliverableStats } from './deliverable-check';
+import { cancelJob, getJob, getJobMaster, getJobReport, submitJob } from './mastering-api';
+import type { MasteringMessage, MasteringRequest, MasteringResponse } from './workers/mastering.worker';
+import MasteringWorker from './workers/mastering.worker.ts?worker';
+import type { AnalysisMessage, AnalysisRequest, AnalysisResults } from './workers/analysis.worker';
+import AnalysisWorker from './workers/analysis.worker.ts?worker';
 
-export type Preset = 'youtube_rap' | 'club_bass' | 'tiktok_trap' | 'high_res';
-
-export interface BassSettings {
-  impact: 'Soft' | 'Heavy' | 'Savage';
-  punch: 'Short' | 'Tight' | 'Long';
-  weight: 'Low' | 'Balanced' | 'Deep';
-  clubSafe: boolean;
-  phoneSafe: boolean;
-}
+export {
+  PLATFORM_TARGETS,
+  type BassSettings, type EngineOptions, type LoudnessTarget, type MasteringSettings, type Preset,
+} from './mastering-engine';
 
 export interface AudioAnalysis {
-  lufs: number;
-  truePeak: number;
-  dynamicRange: number;
+  lufs: number; // Integrated loudness (BS.1770, gated)
+  shortTermMax: number;
+  momentaryMax: number;
+  truePeak: number; // dBTP, 4x oversampled
+  dynamicRange: number; // Loudness range (LRA), LU
+  crestFactor: number; // dB
+  bandLevels: Record<BandName, number>; // dB relative to full band
+  spectrum: Spectrum; // Long-term average, for reference matching
   clipping: boolean;
   bassBalance: 'Good' | 'Heavy' | 'Weak';
   stereoWidth: 'Good' | 'Narrow' | 'Wide';
@@ -22,171 +37,268 @@ export interface AudioAnalysis {
   fixes: string[];
 }
 
+export interface ProcessOptions extends EngineOptions {
+  signal?: AbortSignal; // Aborting rejects with the signal's reason (an AbortError by default)
+}
+
+export interface ProcessResult extends Omit<MasteringOutput, 'channels'> {
+  originalBuffer: AudioBuffer;
+  processedWav: Blob;
+  processedBuffer: AudioBuffer;
+  bitDepth: 16 | 24; // Resolution of processedWav
+  metadata: WavMetadata; // Embedded in processedWav; reuse when re-encoding
+}
+
+// Leave a core for the UI; more workers than this only adds memory pressure
+const POOL_SIZE = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+let pool: WorkerPool | null = null;
+// Decoding and metering get their own workers, so they don't queue behind a batch of masters
+let analysisPool: WorkerPool | null = null;
+const SERVER_POLL_INTERVAL = 1000; // ms
+
+interface SourceAudio {
+  buffer: AudioBuffer;
+  bitDepth: number | undefined; // From the header, when the file has one
+  native: boolean; // Read by the native parsers, so the job server can read it too
+  metadata: WavMetadata;
+}
+
+// Runs one decoding or metering job on the analysis pool; channel data moves both ways without copying
+function runAnalysisJob<T extends AnalysisRequest['type']>(
+  request: AnalysisRequest & { type: T },
+  signal?: AbortSignal
+): Promise<AnalysisResults[T]> {
+  analysisPool ??= new WorkerPool(() => new AnalysisWorker(), POOL_SIZE);
+  return analysisPool.run(worker => new Promise<AnalysisResults[T]>((resolve, reject) => {
+    const cleanup = () => {
+      worker.onmessage = null;
+      worker.onerror = null;
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<AnalysisMessage>) => {
+      const message = event.data;
+      cleanup();
+      if (message.type === 'done') resolve(message.result as AnalysisResults[T]);
+      else reject(message.decodeError ? new DecodeError(message.message) : new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Analysis worker failed'));
+    };
+    worker.postMessage(request, 'channels' in request ? request.channels.map(data => data.buffer) : []);
+  }), signal);
+}
+
+// WAV, AIFF and FLAC go through the native parsers at full precision; anything
+// else is left to the browser, at the file's own sample rate when we know it
+async function decodeSource(file: File, signal?: AbortSignal): Promise<SourceAudio> {
+  const decoded = await runAnalysisJob({ type: 'decode', file }, signal);
+  if (decoded) {
+    try {
+      return { buffer: toAudioBuffer(decoded.channels, decoded.sampleRate), bitDepth: decoded.bitDepth, native: true, metadata: decoded.metadata };
+    } catch {
+      throw new DecodeError(`Unsupported sample rate (${decoded.sampleRate} Hz)`);
+    }
+  }
+
+  const arrayBuffer = await file.arrayBuffer();
+  // Compressed WAV (ADPCM and the like) still has a readable header
+  const format = readWavFormat(arrayBuffer);
+  // decodeAudioData detaches the buffer, so read the tags first
+  const metadata = format ? readWavMetadata(arrayBuffer) : { info: readId3Tags(arrayBuffer) ?? undefined };
+  const AudioContextCtor = window.AudioContext || (window as any).webkitAudioContext;
+  const audioCtx: AudioContext = new AudioContextCtor(format ? { sampleRate: format.sampleRate } : undefined);
+  try {
+    return { buffer: await audioCtx.decodeAudioData(arrayBuffer), bitDepth: format?.bitDepth, native: false, metadata };
+  } catch {
+    throw new DecodeError(arrayBuffer.byteLength === 0 ? 'Empty file' : 'Unsupported or damaged audio file');
+  } finally {
+    audioCtx.close();
+  }
+}
+
+export async function decodeAudioFile(file: File): Promise<AudioBuffer> {
+  return (await decodeSource(file)).buffer;
+}
+
+// Copies, so the buffer stays playable while a worker owns them
+const copyChannels = (buffer: AudioBuffer) => getChannels(buffer).map(data => data.slice());
+
 export async function analyzeAudio(file: File): Promise<AudioAnalysis> {
-  // Simulate deep analysis delay
-  await new Promise(resolve => setTimeout(resolve, 2500));
-  
-  // Mock analysis results based on file size/name to feel dynamic
-  const isHeavy = file.size % 2 === 0;
-  const hasArtifacts = file.size % 3 === 0;
-  
-  return {
-    lufs: -14.4 + (Math.random() * 4 - 2),
-    truePeak: isHeavy ? 0.8 : -0.5,
-    dynamicRange: 6.5 + Math.random() * 3,
-    clipping: isHeavy,
-    bassBalance: isHeavy ? 'Heavy' : 'Good',
-    stereoWidth: 'Wide',
-    aiArtifacts: hasArtifacts,
-    issues: isHeavy ? [
-      "Sub bass (20-60Hz) eating headroom",
-      "808 fundamental masking kick transient",
-      "Inter-sample clipping detected (+0.8 dBTP)"
-    ] : [
-      "Low dynamic contrast in drop",
-      "Slightly muddy low-mids (120-250Hz)",
-      "Phase-weak stereo width"
-    ],
-    fixes: isHeavy ? [
-      "Mono bass below 120Hz for club safety",
-      "Dynamic sub EQ to unmask kick",
-      "Apply true-peak limiting to fix clipping"
-    ] : [
-      "Micro-dynamic expansion (restore life)",
-      "Clean up low-mids for better vocal separation",
-      "Stereo depth re-balancing"
-    ]
-  };
+  const { buffer } = await decodeSource(file);
+  return runAnalysisJob({ type: 'analyze', channels: copyChannels(buffer), sampleRate: buffer.sampleRate });
+}
+
+// Long-term spectrum of a reference track to match masters against
+export async function analyzeReference(file: File): Promise<Spectrum> {
+  const { buffer } = await decodeSource(file);
+  return runAnalysisJob({ type: 'spectrum', channels: copyChannels(buffer), sampleRate: buffer.sampleRate });
+}
+
+// Momentary and short-term loudness over time, for the player's meter
+export function measureLoudnessCurve(buffer: AudioBuffer, signal?: AbortSignal): Promise<LoudnessCurve> {
+  return runAnalysisJob({ type: 'loudnessCurve', channels: copyChannels(buffer), sampleRate: buffer.sampleRate }, signal);
 }
 
+// Posts one job and resolves with the worker's result; channel data moves both ways without copying
+function runMasteringJob(
+  worker: Worker,
+  request: MasteringRequest,
+  onProgress: (fraction: number, stage: string) => void,
+  signal?: AbortSignal
+): Promise<MasteringResponse> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      worker.onmessage = null;
+      worker.onerror = null;
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<MasteringMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.fraction, message.stage);
+      } else {
+        cleanup();
+        if (message.type === 'done') resolve(message.result);
+        else reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Mastering worker failed'));
+    };
+    worker.postMessage(request, request.channels.map(data => data.buffer));
+  });
+}
+
+function toAudioBuffer(channels: Float32Array[], sampleRate: number): AudioBuffer {
+  const buffer = new AudioBuffer({ length: channels[0]?.length || 1, numberOfChannels: channels.length, sampleRate });
+  channels.forEach((data, ch) => buffer.copyToChannel(data, ch));
+  return buffer;
+}
+
+// Loads a previously rendered master (from history or the server) for playback and export
+export async function decodeMaster(wav: Blob): Promise<AudioBuffer> {
+  const master = await runAnalysisJob({ type: 'decode', file: wav });
+  if (!master) throw new Error('Unreadable master WAV');
+  return toAudioBuffer(master.channels, master.sampleRate);
+}
+
+/**
+ * Decodes a track and masters it on the worker pool. Tracks started together
+ * run in parallel up to the pool size; the rest wait for a free worker.
+ */
 export async function processAudio(
   file: File,
   preset: Preset,
   intensity: number, // 0 to 100
   bassSettings: BassSettings,
-  onProgress: (progress: number, stage: string) => void
-): Promise<{ originalBuffer: AudioBuffer, processedWav: Blob, processedBuffer: AudioBuffer }> {
-  const arrayBuffer = await file.arrayBuffer();
-  const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-  const originalBuffer = await audioCtx.decodeAudioData(arrayBuffer);
-  
-  const offlineCtx = new OfflineAudioContext(
-    originalBuffer.numberOfChannels,
-    originalBuffer.length,
-    originalBuffer.sampleRate
-  );
-
-  const source = offlineCtx.createBufferSource();
-  source.buffer = originalBuffer;
-
-  // Build processing chain based on preset and intensity
-  let lastNode: AudioNode = source;
-  const intensityMultiplier = intensity / 50; // 0 to 2 (1 is normal)
-
-  // 1. AI Humanizer Pass (Simulated)
-  const humanizerEQ = offlineCtx.createBiquadFilter();
-  humanizerEQ.type = 'peaking';
-  humanizerEQ.frequency.value = 4000;
-  humanizerEQ.Q.value = 0.5;
-  humanizerEQ.gain.value = -1 * intensityMultiplier; // De-harsh
-  lastNode.connect(humanizerEQ);
-  lastNode = humanizerEQ;
-
-  // 2. Bass Engine (808 Control)
-  if (bassSettings.phoneSafe) {
-    const hpFilter = offlineCtx.createBiquadFilter();
-    hpFilter.type = 'highpass';
-    hpFilter.frequency.value = 40; // Cut extreme sub
-    lastNode.connect(hpFilter);
-    lastNode = hpFilter;
-  }
+  onProgress: (progress: number, stage: string) => void,
+  options: ProcessOptions = {}
+): Promise<ProcessResult> {
+  const { signal, ...engineOptions } = options;
+  pool ??= new WorkerPool(() => new MasteringWorker(), POOL_SIZE);
 
-  const bassEQ = offlineCtx.createBiquadFilter();
-  bassEQ.type = 'lowshelf';
-  bassEQ.frequency.value = 80;
-  
-  let bassGain = 0;
-  if (bassSettings.impact === 'Heavy') bassGain = 3;
-  if (bassSettings.impact === 'Savage') bassGain = 6;
-  if (bassSettings.weight === 'Deep') bassEQ.frequency.value = 60;
-  
-  bassEQ.gain.value = bassGain * intensityMultiplier;
-  lastNode.connect(bassEQ);
-  lastNode = bassEQ;
-
-  // 3. Preset Specifics
-  if (preset === 'youtube_rap') {
-    const compressor = offlineCtx.createDynamicsCompressor();
-    compressor.threshold.value = -16 * intensityMultiplier;
-    compressor.ratio.value = 3 + (intensityMultiplier * 1);
-    lastNode.connect(compressor);
-    lastNode = compressor;
-  } else if (preset === 'club_bass') {
-    const compressor = offlineCtx.createDynamicsCompressor();
-    compressor.threshold.value = -12 * intensityMultiplier;
-    compressor.ratio.value = 6 + (intensityMultiplier * 2);
-    compressor.attack.value = 0.005; // Let transients through
-    lastNode.connect(compressor);
-    lastNode = compressor;
-  } else if (preset === 'tiktok_trap') {
-    const peaking = offlineCtx.createBiquadFilter();
-    peaking.type = 'peaking';
-    peaking.frequency.value = 2500;
-    peaking.Q.value = 1;
-    peaking.gain.value = 2 * intensityMultiplier;
-    lastNode.connect(peaking);
-    lastNode = peaking;
-    
-    const compressor = offlineCtx.createDynamicsCompressor();
-    compressor.threshold.value = -14 * intensityMultiplier;
-    compressor.ratio.value = 4;
-    lastNode.connect(compressor);
-    lastNode = compressor;
-  }
+  onProgress(0, 'Queued');
+  return pool.run(async worker => {
+    onProgress(0, 'Decoding');
+    const { buffer: originalBuffer, bitDepth: sourceBitDepth, metadata: sourceMetadata } = await decodeSource(file, signal);
+    signal?.throwIfAborted();
 
-  // Final safety limiter
-  const limiter = offlineCtx.createDynamicsCompressor();
-  limiter.threshold.value = preset === 'club_bass' ? -0.5 : -1.0;
-  limiter.knee.value = 0;
-  limiter.ratio.value = 20;
-  limiter.attack.value = 0.001;
-  limiter.release.value = 0.1;
-  lastNode.connect(limiter);
-  limiter.connect(offlineCtx.destination);
-
-  source.start(0);
-
-  // Simulate progress and stages
-  const stages = [
-    'Bass Intelligence Scan', 
-    'AI Artifact Humanization', 
-    'Smart Low-End Reconstruction', 
-    'Dynamic Processing', 
-    'Mastering & Limiting', 
-    'Validating'
-  ];
-  let progress = 0;
-  let currentStageIdx = 0;
-  
-  const interval = setInterval(() => {
-    progress += 4;
-    if (progress % 16 === 0 && currentStageIdx < stages.length - 1) {
-      currentStageIdx++;
-    }
-    if (progress <= 90) {
-      onProgress(progress, stages[currentStageIdx]);
+    const bitDepth = masterBitDepth(preset, sourceBitDepth);
+    const { channels, wav, metadata, ...report } = await runMasteringJob(worker, {
+      channels: copyChannels(originalBuffer),
+      sampleRate: originalBuffer.sampleRate,
+      settings: { preset, intensity, bassSettings },
+      options: engineOptions,
+      bitDepth,
+      title: file.name.replace(/\.[^.]+$/, ''),
+      sourceMetadata,
+    }, (fraction, stage) => onProgress(Math.round(5 + fraction * 95), stage), signal);
+    onProgress(100, 'Done');
+
+    return {
+      ...report,
+      originalBuffer,
+      processedBuffer: toAudioBuffer(channels, originalBuffer.sampleRate),
+      processedWav: wav,
+      bitDepth,
+      metadata,
+    };
+  }, signal);
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+/**
+ * Same contract as processAudio, but the track is mastered by the job server
+ * (npm run server) so big batches don't tie up the tab. Sources the server
+ * can't read are decoded here and uploaded as float WAV.
+ */
+export async function processOnServer(
+  file: File,
+  preset: Preset,
+  intensity: number, // 0 to 100
+  bassSettings: BassSettings,
+  onProgress: (progress: number, stage: string) => void,
+  options: ProcessOptions = {}
+): Promise<ProcessResult> {
+  const { signal, ...engineOptions } = options;
+  onProgress(0, 'Uploading');
+  const { buffer: originalBuffer, native } = await decodeSource(file, signal);
+  const upload = native ? file : encodeWav(originalBuffer, { bitDepth: 32 }).blob;
+  signal?.throwIfAborted();
+
+  let job = await submitJob(upload, file.name, { preset, intensity, bassSettings }, engineOptions);
+  try {
+    while (job.status === 'queued' || job.status === 'running') {
+      onProgress(Math.round(job.progress * 0.95), job.status === 'queued' ? 'Queued' : job.stage);
+      await wait(SERVER_POLL_INTERVAL, signal);
+      job = await getJob(job.id);
     }
-  }, 100);
+  } catch (error) {
+    if (signal?.aborted) await cancelJob(job.id).catch(() => undefined);
+    throw error;
+  }
+  if (job.status !== 'done') throw new Error(job.error ?? `Server job ${job.status}`);
 
-  const renderedBuffer = await offlineCtx.startRendering();
-  clearInterval(interval);
+  onProgress(95, 'Downloading');
+  const [processedWav, report] = await Promise.all([getJobMaster(job.id), getJobReport(job.id)]);
+  const processedBuffer = await decodeMaster(processedWav);
   onProgress(100, 'Done');
 
-  const wavBlob = audioBufferToWav(renderedBuffer);
-  
   return {
     originalBuffer,
-    processedBuffer: renderedBuffer,
-    processedWav: wavBlob
+    processedBuffer,
+    processedWav,
+    crestFactor: report.crestFactor,
+    loudness: report.loudness,
+    dynamics: report.dynamics,
+    gainReduction: report.gainReduction,
+    bandGainReduction: report.bandGainReduction ?? [],
+    deliverable: report.deliverable ?? measureDeliverableStats(getChannels(processedBuffer), processedBuffer.sampleRate),
+    bitDepth: report.bitDepth,
+    metadata: report.metadata,
   };
 }
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav, WavOptions } from './audio-utils';
+import { readWav } from './wav-reader';
+
+// A quarter of a 16-bit LSB: truncates to digital silence unless dithered
+const data = new Float32Array(48000).fill(0.25 / 32768);
+const buffer = { numberOfChannels: 1, sampleRate: 48000, length: data.length, getChannelData: () => data };
+
+async function decode(options: WavOptions): Promise<Float32Array> {
+  return readWav(await encodeWav(buffer, options).blob.arrayBuffer())!.channels[0];
+}
+
+describe('encodeWav', () => {
+  it('applies TPDF dither to 16-bit output by default', async () => {
+    const samples = await decode({ bitDepth: 16 });
+    expect(samples.some(x => x !== 0)).toBe(true);
+    // TPDF spans ±1 LSB around the input, so the mean is kept
+    const mean = samples.reduce((sum, x) => sum + x, 0) / samples.length;
+    expect(mean * 32768).toBeCloseTo(0.25, 1);
+  });
+
+  it('truncates only when asked to', async () => {
+    expect((await decode({ bitDepth: 16, dither: 'none' })).every(x => x === 0)).toBe(true);
+  });
+});
+
+describe('noise-shaped dither', () => {
+  it('recovers from a clipped run', async () => {
+    // 2000 samples over full scale, then a quiet sine
+    const input = new Float32Array(12000).map((_, i) => (i < 2000 ? 1.05 : 0.1 * Math.sin(i / 20)));
+    const clippedBuffer = { numberOfChannels: 1, sampleRate: 48000, length: input.length, getChannelData: () => input };
+    const result = encodeWav(clippedBuffer, { bitDepth: 16, dither: 'noise_shaped' });
+    const output = readWav(await result.blob.arrayBuffer())!.channels[0];
+    expect(result.clippedSamples).toBeGreaterThanOrEqual(2000);
+    let maxError = 0;
+    for (let i = 2000; i < input.length; i++) maxError = Math.max(maxError, Math.abs(output[i] - input[i]) * 32768);
+    // Dither plus the shaped error stay within a few LSB
+    expect(maxError).toBeLessThan(8);
+  });
+});
@@ -1,20 +1,100 @@
-export function audioBufferToWav(buffer: AudioBuffer): Blob {
+import { resample } from './dsp/resample';
+import { buildMetadataChunks, type WavMetadata } from './wav-metadata';
+
+export type AudioBufferLike = Pick<AudioBuffer, 'numberOfChannels' | 'sampleRate' | 'length' | 'getChannelData'>;
+
+export interface WavOptions {
+  bitDepth?: 16 | 24 | 32; // 32 = IEEE float
+  dither?: 'none' | 'tpdf' | 'noise_shaped'; // Default TPDF; ignored for float output
+  sampleRate?: number; // Resample before encoding
+  metadata?: WavMetadata; // Written as LIST/INFO, bext and iXML chunks
+}
+
+export interface WavEncodeResult {
+  blob: Blob;
+  clippedSamples: number; // Samples beyond full scale (clamped for integer formats)
+}
+
+export const EXPORT_FORMATS: { id: string; name: string; options: WavOptions }[] = [
+  { id: 'pcm16_tpdf', name: '16-bit · TPDF dither', options: { bitDepth: 16, dither: 'tpdf' } },
+  { id: 'pcm16_shaped', name: '16-bit · Noise-shaped', options: { bitDepth: 16, dither: 'noise_shaped' } },
+  { id: 'pcm24', name: '24-bit PCM', options: { bitDepth: 24, dither: 'tpdf' } },
+  { id: 'float32', name: '32-bit float', options: { bitDepth: 32 } },
+];
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+// KSDATAFORMAT_SUBTYPE_* GUIDs share everything but their first two bytes
+const SUBFORMAT_GUID_TAIL = [0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71];
+
+/**
+ * Requantizes one channel to `bitDepth` integers. TPDF dither is two uniform
+ * sources of +/-1 LSB; noise shaping feeds the quantization error back through
+ * (1 - z^-1)^2 so the noise floor moves above the most sensitive band.
+ */
+function quantize(data: Float32Array, bitDepth: 16 | 24, dither: WavOptions['dither']): { values: Int32Array; clipped: number } {
+  const max = Math.pow(2, bitDepth - 1) - 1;
+  const min = -max - 1;
+  const values = new Int32Array(data.length);
+  let clipped = 0;
+  let e1 = 0, e2 = 0;
+
+  for (let i = 0; i < data.length; i++) {
+    let x = data[i] * (max + 1);
+    if (dither === 'noise_shaped') x -= 2 * e1 - e2;
+    const noise = dither && dither !== 'none' ? Math.random() - Math.random() : 0;
+    const rounded = Math.round(x + noise);
+    // The error feeds back from before the clamp, or a clipped run would wind it up
+    e2 = e1;
+    e1 = rounded - x;
+    const q = Math.max(min, Math.min(max, rounded));
+    if (q !== rounded) clipped++;
+    values[i] = q;
+  }
+  return { values, clipped };
+}
+
+export function encodeWav(buffer: AudioBufferLike, options: WavOptions = {}): WavEncodeResult {
   const numChannels = buffer.numberOfChannels;
-  const sampleRate = buffer.sampleRate;
-  const format = 1; // PCM
-  const bitDepth = 16;
-  
-  const result = new Float32Array(buffer.length * numChannels);
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < buffer.length; i++) {
-      result[i * numChannels + channel] = channelData[i];
+  const sampleRate = options.sampleRate ?? buffer.sampleRate;
+  const bitDepth = options.bitDepth ?? 16;
+  const isFloat = bitDepth === 32;
+  const bytesPerSample = bitDepth / 8;
+
+  const channels = Array.from({ length: numChannels }, (_, ch) => {
+    const data = buffer.getChannelData(ch);
+    return sampleRate === buffer.sampleRate ? data : resample(data, buffer.sampleRate, sampleRate);
+  });
+  const length = channels[0]?.length ?? 0;
+
+  let clippedSamples = 0;
+  const quantized = isFloat ? [] : channels.map(data => {
+    const { values, clipped } = quantize(data, bitDepth, options.dither ?? 'tpdf');
+    clippedSamples += clipped;
+    return values;
+  });
+  if (isFloat) {
+    for (const data of channels) {
+      for (let i = 0; i < data.length; i++) if (Math.abs(data[i]) > 1) clippedSamples++;
     }
   }
 
-  const dataLength = result.length * (bitDepth / 8);
-  const bufferLength = 44 + dataLength;
-  const arrayBuffer = new ArrayBuffer(bufferLength);
+  // Plain PCM for mono/stereo integer output, a float header plus `fact` for
+  // float, and WAVE_FORMAT_EXTENSIBLE whenever there are more than two channels
+  const extensible = numChannels > 2;
+  const format = extensible ? WAVE_FORMAT_EXTENSIBLE : isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM;
+  const fmtSize = extensible ? 40 : isFloat ? 18 : 16;
+  const factSize = isFloat ? 12 : 0;
+  // The bext coding history always describes the format actually written
+  const metadata = options.metadata?.bext
+    ? { ...options.metadata, bext: { ...options.metadata.bext, codingHistory: `A=${isFloat ? 'PCM_FLOAT' : 'PCM'},F=${sampleRate},W=${bitDepth},M=${numChannels === 1 ? 'mono' : numChannels === 2 ? 'stereo' : 'multichannel'},T=Pro Master` } }
+    : options.metadata;
+  const metadataChunks = metadata ? buildMetadataChunks(metadata) : [];
+  const metadataSize = metadataChunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const dataLength = length * numChannels * bytesPerSample;
+  const headerLength = 12 + 8 + fmtSize + factSize + metadataSize + 8;
+  const arrayBuffer = new ArrayBuffer(headerLength + dataLength);
   const view = new DataView(arrayBuffer);
 
   const writeString = (view: DataView, offset: number, string: string) => {
@@ -24,25 +104,64 @@ export function audioBufferToWav(buffer: AudioBuffer): Blob {
   };
 
   writeString(view, 0, 'RIFF');
-  view.setUint32(4, 36 + dataLength, true);
+  view.setUint32(4, headerLength - 8 + dataLength, true);
   writeString(view, 8, 'WAVE');
   writeString(view, 12, 'fmt ');
-  view.setUint32(16, 16, true);
+  view.setUint32(16, fmtSize, true);
   view.setUint16(20, format, true);
   view.setUint16(22, numChannels, true);
   view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * numChannels * (bitDepth / 8), true);
-  view.setUint16(32, numChannels * (bitDepth / 8), true);
+  view.setUint32(28, sampleRate * numChannels * bytesPerSample, true);
+  view.setUint16(32, numChannels * bytesPerSample, true);
   view.setUint16(34, bitDepth, true);
-  writeString(view, 36, 'data');
-  view.setUint32(40, dataLength, true);
-
-  let offset = 44;
-  for (let i = 0; i < result.length; i++) {
-    const s = Math.max(-1, Math.min(1, result[i]));
-    view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
-    offset += 2;
+
+  let offset = 36;
+  if (fmtSize > 16) {
+    view.setUint16(36, fmtSize - 18, true); // cbSize
+    offset = 38;
+  }
+  if (extensible) {
+    view.setUint16(38, bitDepth, true); // wValidBitsPerSample
+    view.setUint32(40, numChannels >= 32 ? 0xffffffff : (1 << numChannels) - 1, true); // dwChannelMask
+    view.setUint16(44, isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true);
+    SUBFORMAT_GUID_TAIL.forEach((byte, i) => view.setUint8(46 + i, byte));
+    offset = 60;
+  }
+  if (isFloat) {
+    writeString(view, offset, 'fact');
+    view.setUint32(offset + 4, 4, true);
+    view.setUint32(offset + 8, length, true);
+    offset += 12;
+  }
+  for (const chunk of metadataChunks) {
+    new Uint8Array(arrayBuffer, offset, chunk.length).set(chunk);
+    offset += chunk.length;
   }
+  writeString(view, offset, 'data');
+  view.setUint32(offset + 4, dataLength, true);
+  offset += 8;
+
+  for (let i = 0; i < length; i++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      if (isFloat) {
+        view.setFloat32(offset, channels[ch][i], true);
+        offset += 4;
+      } else if (bitDepth === 24) {
+        const v = quantized[ch][i];
+        view.setUint8(offset, v & 0xFF);
+        view.setUint8(offset + 1, (v >> 8) & 0xFF);
+        view.setUint8(offset + 2, (v >> 16) & 0xFF);
+        offset += 3;
+      } else {
+        view.setInt16(offset, quantized[ch][i], true);
+        offset += 2;
+      }
+    }
+  }
+
+  return { blob: new Blob([view], { type: 'audio/wav' }), clippedSamples };
+}
 
-  return new Blob([view], { type: 'audio/wav' });
+export function audioBufferToWav(buffer: AudioBufferLike, options: WavOptions = {}): Blob {
+  return encodeWav(buffer, options).blob;
 }
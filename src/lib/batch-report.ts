@@ -0,0 +1,157 @@
+import type { ValidationResult } from './deliverable-check';
+import type { EngineOptions, MasteringOutput, MasteringSettings } from './mastering-engine';
+import { createZip, ZipEntry } from './zip';
+
+/** One mastered track of a batch, as exported. */
+export interface BatchTrack extends Omit<MasteringOutput, 'channels'> {
+  source: string; // Name of the uploaded file
+  settings: MasteringSettings;
+  options: EngineOptions;
+  wav: Blob; // The master as delivered, with the export format applied
+  bitDepth: 16 | 24 | 32; // Of the delivered file; 32 is float
+  sampleRate: number;
+  clippedSamples: number | null; // Clamped while encoding the delivered file; null when the render is delivered as is
+  validation: ValidationResult | null; // Against the selected deliverable spec, if any
+}
+
+/** A master left out of the batch because it failed the deliverable spec. */
+export interface SkippedTrack {
+  source: string;
+  validation: ValidationResult;
+}
+
+const REPORT_VERSION = 1;
+
+// `mix.final.wav` -> `mix.final_Master.wav`, numbered when two sources share a stem
+function masterNames(tracks: BatchTrack[]): string[] {
+  const taken = new Set<string>();
+  return tracks.map(({ source }) => {
+    const stem = (source.replace(/\.[^.]+$/, '') || 'track').replace(/[\\/:*?"<>|]+/g, '_');
+    let name = `${stem}_Master.wav`;
+    for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${stem}_Master (${n}).wav`;
+    taken.add(name.toLowerCase());
+    return name;
+  });
+}
+
+const formatDb = (value: number) => Number.isFinite(value) ? value.toFixed(1) : '-inf';
+
+function reportJson(tracks: BatchTrack[], names: string[], skipped: SkippedTrack[], generatedAt: Date): string {
+  return JSON.stringify({
+    version: REPORT_VERSION,
+    generatedAt: generatedAt.toISOString(),
+    tracks: tracks.map((track, i) => ({
+      source: track.source,
+      master: names[i],
+      // The whole preset, so a custom one can be re-imported from the report
+      preset: track.settings.preset,
+      intensity: track.settings.intensity,
+      bassSettings: track.settings.bassSettings,
+      options: track.options,
+      format: { bitDepth: track.bitDepth, sampleRate: track.sampleRate, clippedSamples: track.clippedSamples },
+      loudness: track.loudness,
+      dynamics: track.dynamics,
+      crestFactor: track.crestFactor,
+      gainReduction: { max: track.gainReduction.max, average: track.gainReduction.average, active: track.gainReduction.active },
+      bandGainReduction: track.bandGainReduction.map(({ low, high, gainReduction }) => ({ low, high, max: gainReduction.max, average: gainReduction.average })),
+      validation: track.validation,
+    })),
+    skipped,
+  }, null, 2);
+}
+
+interface SummaryColumn {
+  label: string;
+  value: (track: BatchTrack, master: string) => string;
+}
+
+const SUMMARY_COLUMNS: SummaryColumn[] = [
+  { label: 'Track', value: t => t.source },
+  { label: 'Master', value: (_, master) => master },
+  { label: 'Preset', value: t => t.settings.preset.name },
+  { label: 'Intensity %', value: t => String(t.settings.intensity) },
+  { label: '808', value: ({ settings: { bassSettings: b } }) => `${b.impact} / ${b.punch} / ${b.weight}` },
+  { label: 'Club Safe', value: ({ settings: { bassSettings: b } }) => b.clubSafe ? `Mono < ${b.monoFrequency} Hz` : 'Off' },
+  { label: 'Phone Safe', value: t => t.settings.bassSettings.phoneSafe ? 'On' : 'Off' },
+  { label: 'Target LUFS', value: t => formatDb(t.loudness.target.lufs) },
+  { label: 'Ceiling dBTP', value: t => formatDb(t.loudness.target.truePeak) },
+  { label: 'LUFS Before', value: t => formatDb(t.loudness.before.integrated) },
+  { label: 'LUFS After', value: t => formatDb(t.loudness.after.integrated) },
+  { label: 'True Peak Before', value: t => formatDb(t.loudness.before.truePeak) },
+  { label: 'True Peak After', value: t => formatDb(t.loudness.after.truePeak) },
+  { label: 'LRA Before', value: t => formatDb(t.dynamics.lraBefore) },
+  { label: 'LRA After', value: t => formatDb(t.dynamics.lraAfter) },
+  { label: 'PLR Before', value: t => formatDb(t.dynamics.plrBefore) },
+  { label: 'PLR After', value: t => formatDb(t.dynamics.plrAfter) },
+  { label: 'Max GR dB', value: t => formatDb(t.gainReduction.max) },
+  { label: 'Format', value: t => `${t.bitDepth === 32 ? '32-bit float' : `${t.bitDepth}-bit`} / ${t.sampleRate} Hz` },
+  { label: 'Clipped', value: t => t.clippedSamples === null ? '' : String(t.clippedSamples) },
+  { label: 'Spec', value: ({ validation: v }) => v ? `${v.profile}: ${v.status.toUpperCase()}` : '' },
+];
+
+// RFC 4180: quote every field, double embedded quotes, CRLF line ends
+function reportCsv(tracks: BatchTrack[], names: string[]): string {
+  const row = (fields: string[]) => fields.map(f => `"${f.replace(/"/g, '""')}"`).join(',');
+  return [
+    row(SUMMARY_COLUMNS.map(c => c.label)),
+    ...tracks.map((track, i) => row(SUMMARY_COLUMNS.map(c => c.value(track, names[i])))),
+  ].join('\r\n') + '\r\n';
+}
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+function reportHtml(tracks: BatchTrack[], names: string[], skipped: SkippedTrack[], generatedAt: Date): string {
+  const header = SUMMARY_COLUMNS.map(c => `<th>${escapeHtml(c.label)}</th>`).join('');
+  const rows = tracks.map((track, i) => {
+    const cells = SUMMARY_COLUMNS.map(c => `<td>${escapeHtml(c.value(track, names[i]))}</td>`);
+    return `<tr>${cells.join('')}</tr>`;
+  }).join('\n');
+  const failures = ({ validation }: SkippedTrack) => validation.checks.filter(c => c.status === 'fail').map(c => `${c.label}: ${c.detail}`).join('; ');
+  const skippedList = skipped.length === 0 ? '' : `<h2>Not exported</h2>
+<ul>
+${skipped.map(track => `<li>${escapeHtml(track.source)} failed ${escapeHtml(track.validation.profile)} (${escapeHtml(failures(track))})</li>`).join('\n')}
+</ul>
+`;
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Mastering report</title>
+<style>
+body { font: 13px/1.4 system-ui, sans-serif; margin: 2rem; color: #18181b; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #d4d4d8; padding: 4px 8px; text-align: left; white-space: nowrap; }
+th { background: #f4f4f5; font-weight: 600; }
+p { color: #52525b; }
+</style>
+</head>
+<body>
+<h1>Mastering report</h1>
+<p>${tracks.length} ${tracks.length === 1 ? 'track' : 'tracks'} · ${escapeHtml(generatedAt.toLocaleString())}</p>
+<table>
+<thead><tr>${header}</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+${skippedList}<p>Loudness is integrated BS.1770 (LUFS); true peak is 4x oversampled (dBTP). LRA is the loudness range and PLR the peak-to-loudness ratio, the two measures of dynamic range. Full measurements are in report.json.</p>
+</body>
+</html>
+`;
+}
+
+/**
+ * Bundles a batch into one ZIP: every master, report.json with the full
+ * measurements and settings, and the same summary as report.csv and
+ * report.html. `skipped` masters are only named in the reports.
+ */
+export function createBatchZip(tracks: BatchTrack[], skipped: SkippedTrack[] = [], generatedAt = new Date()): Promise<Blob> {
+  const names = masterNames(tracks);
+  const entries: ZipEntry[] = [
+    ...tracks.map((track, i) => ({ name: names[i], data: track.wav, modified: generatedAt })),
+    { name: 'report.json', data: reportJson(tracks, names, skipped, generatedAt), modified: generatedAt },
+    { name: 'report.csv', data: reportCsv(tracks, names), modified: generatedAt },
+    { name: 'report.html', data: reportHtml(tracks, names, skipped, generatedAt), modified: generatedAt },
+  ];
+  return createZip(entries);
+}
@@ -0,0 +1,426 @@
+import { describe, expect, it } from 'vitest';
+import { decodeNative, DecodeError, detectContainer } from './decoder';
+
+const FRAMES = 256;
+
+// Integer test signal per channel: a sine with both rails at the start
+function pcmSamples(bitDepth: number, numChannels: number): number[][] {
+  const max = 2 ** (bitDepth - 1) - 1;
+  return Array.from({ length: numChannels }, (_, ch) => Array.from({ length: FRAMES }, (_, i) => {
+    if (i === 0) return max;
+    if (i === 1) return -max - 1;
+    return Math.round(0.8 * max * Math.sin(2 * Math.PI * (ch + 1) * i / 64)) || 0; // No -0
+  }));
+}
+
+const normalized = (samples: number[][], bitDepth: number) =>
+  samples.map(channel => channel.map(value => Math.fround(value / 2 ** (bitDepth - 1))));
+
+const toArrays = (channels: Float32Array[]) => channels.map(data => Array.from(data));
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+// RIFF is little-endian, IFF (AIFF) big-endian; both pad odd chunks
+function chunk(id: string, body: Uint8Array, littleEndian: boolean): Uint8Array {
+  const header = new Uint8Array(8);
+  header.set(ascii(id));
+  new DataView(header.buffer).setUint32(4, body.length, littleEndian);
+  return concat([header, body, new Uint8Array(body.length % 2)]);
+}
+
+function container(id: 'RIFF' | 'FORM', type: string, chunks: Uint8Array[]): ArrayBuffer {
+  const littleEndian = id === 'RIFF';
+  return chunk(id, concat([ascii(type), ...chunks]), littleEndian).buffer as ArrayBuffer;
+}
+
+function bytes(length: number, write: (view: DataView) => void): Uint8Array {
+  const out = new Uint8Array(length);
+  write(new DataView(out.buffer));
+  return out;
+}
+
+// --- WAV ---
+
+interface WavFmt {
+  formatTag: number;
+  numChannels: number;
+  sampleRate: number;
+  bitDepth: number;
+  extensible?: boolean; // WAVE_FORMAT_EXTENSIBLE wrapping `formatTag`
+}
+
+function fmtChunk({ formatTag, numChannels, sampleRate, bitDepth, extensible }: WavFmt): Uint8Array {
+  const blockAlign = numChannels * Math.ceil(bitDepth / 8);
+  return chunk('fmt ', bytes(extensible ? 40 : 16, view => {
+    view.setUint16(0, extensible ? 0xfffe : formatTag, true);
+    view.setUint16(2, numChannels, true);
+    view.setUint32(4, sampleRate, true);
+    view.setUint32(8, sampleRate * blockAlign, true);
+    view.setUint16(12, blockAlign, true);
+    view.setUint16(14, bitDepth, true);
+    if (extensible) {
+      view.setUint16(16, 22, true);
+      view.setUint16(18, bitDepth, true);
+      view.setUint32(20, (1 << numChannels) - 1, true);
+      view.setUint16(24, formatTag, true);
+    }
+  }), true);
+}
+
+function wavData(format: WavFmt, channels: number[][]): Uint8Array {
+  const size = Math.ceil(format.bitDepth / 8);
+  const float = format.formatTag === 3;
+  return bytes(FRAMES * channels.length * size, view => {
+    let offset = 0;
+    for (let i = 0; i < FRAMES; i++) {
+      for (const channel of channels) {
+        const value = channel[i];
+        if (float && size === 4) view.setFloat32(offset, value, true);
+        else if (float) view.setFloat64(offset, value, true);
+        else if (size === 1) view.setUint8(offset, value + 128);
+        else if (size === 2) view.setInt16(offset, value, true);
+        else if (size === 3) {
+          view.setUint16(offset, value & 0xffff, true);
+          view.setInt8(offset + 2, value >> 16);
+        } else view.setInt32(offset, value, true);
+        offset += size;
+      }
+    }
+  });
+}
+
+function wav(format: WavFmt, channels: number[][]): ArrayBuffer {
+  return container('RIFF', 'WAVE', [fmtChunk(format), chunk('data', wavData(format, channels), true)]);
+}
+
+// --- AIFF ---
+
+// 80-bit extended precision sample rate
+function extended(value: number): Uint8Array {
+  const exponent = Math.floor(Math.log2(value));
+  const mantissa = BigInt(value) << BigInt(63 - exponent);
+  return bytes(10, view => {
+    view.setUint16(0, 16383 + exponent);
+    view.setBigUint64(2, mantissa);
+  });
+}
+
+function aiff(compression: string | null, numChannels: number, bitDepth: number, sound: Uint8Array, extra: Uint8Array[] = []): ArrayBuffer {
+  const comm = concat([
+    bytes(8, view => {
+      view.setInt16(0, numChannels);
+      view.setUint32(2, sound.length / Math.max(1, numChannels) / Math.ceil(bitDepth / 8));
+      view.setInt16(6, bitDepth);
+    }),
+    extended(44100),
+    ...compression ? [ascii(compression), new Uint8Array(2)] : [], // Empty Pascal-string name, padded
+  ]);
+  const ssnd = concat([new Uint8Array(8), sound]);
+  return container('FORM', compression ? 'AIFC' : 'AIFF', [chunk('COMM', comm, false), ...extra, chunk('SSND', ssnd, false)]);
+}
+
+function aiffData(channels: number[][], size: number, write: (view: DataView, offset: number, value: number) => void): Uint8Array {
+  return bytes(FRAMES * channels.length * size, view => {
+    let offset = 0;
+    for (let i = 0; i < FRAMES; i++) {
+      for (const channel of channels) {
+        write(view, offset, channel[i]);
+        offset += size;
+      }
+    }
+  });
+}
+
+// --- FLAC ---
+
+class BitWriter {
+  bytes: number[] = [];
+  private bits = 0;
+  private count = 0;
+
+  write(value: number, width: number) {
+    for (let bit = width - 1; bit >= 0; bit--) {
+      this.bits = (this.bits << 1) | (Math.floor(value / 2 ** bit) & 1);
+      if (++this.count === 8) {
+        this.bytes.push(this.bits);
+        this.bits = 0;
+        this.count = 0;
+      }
+    }
+  }
+
+  writeSigned(value: number, width: number) {
+    this.write(value < 0 ? value + 2 ** width : value, width);
+  }
+
+  align() {
+    if (this.count > 0) this.write(0, 8 - this.count);
+  }
+}
+
+function crc(data: number[], width: 8 | 16, polynomial: number): number {
+  const top = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  let value = 0;
+  for (const byte of data) {
+    value ^= byte << (width - 8);
+    for (let bit = 0; bit < 8; bit++) value = value & top ? ((value << 1) ^ polynomial) & mask : (value << 1) & mask;
+  }
+  return value;
+}
+
+type Subframe = { type: 'constant' } | { type: 'verbatim' } | { type: 'fixed2'; rice: number };
+
+function writeSubframe(writer: BitWriter, samples: number[], bitDepth: number, subframe: Subframe) {
+  writer.write(0, 1);
+  if (subframe.type === 'constant') {
+    writer.write(0, 6);
+    writer.write(0, 1);
+    writer.writeSigned(samples[0], bitDepth);
+  } else if (subframe.type === 'verbatim') {
+    writer.write(1, 6);
+    writer.write(0, 1);
+    for (const sample of samples) writer.writeSigned(sample, bitDepth);
+  } else {
+    writer.write(8 + 2, 6);
+    writer.write(0, 1);
+    writer.writeSigned(samples[0], bitDepth);
+    writer.writeSigned(samples[1], bitDepth);
+    writer.write(0, 2); // Rice, 4-bit parameters
+    writer.write(0, 4); // One partition
+    writer.write(subframe.rice, 4);
+    for (let i = 2; i < samples.length; i++) {
+      const residual = samples[i] - 2 * samples[i - 1] + samples[i - 2];
+      const folded = residual >= 0 ? residual * 2 : -residual * 2 - 1;
+      for (let q = Math.floor(folded / 2 ** subframe.rice); q > 0; q--) writer.write(0, 1);
+      writer.write(1, 1);
+      writer.write(folded % 2 ** subframe.rice, subframe.rice);
+    }
+  }
+}
+
+interface FlacFrame {
+  assignment: number; // 0-7 independent channels, 8 left/side, 9 side/right, 10 mid/side
+  subframes: Subframe[];
+}
+
+// A 16-bit FLAC stream of FRAMES-sample blocks, one per entry of `frames`
+function flac(channels: number[][], frames: FlacFrame[], { totalSamples = channels[0].length, title = '' } = {}): ArrayBuffer {
+  const bitDepth = 16;
+  const blockSize = channels[0].length / frames.length;
+  const writer = new BitWriter();
+  writer.write(0x664c6143, 32); // fLaC
+
+  writer.write(title ? 0 : 0x80, 8);
+  writer.write(34, 24);
+  writer.write(blockSize, 16);
+  writer.write(blockSize, 16);
+  writer.write(0, 24);
+  writer.write(0, 24);
+  writer.write(44100, 20);
+  writer.write(channels.length - 1, 3);
+  writer.write(bitDepth - 1, 5);
+  writer.write(Math.floor(totalSamples / 2 ** 32), 4);
+  writer.write(totalSamples % 2 ** 32, 32);
+  for (let i = 0; i < 16; i++) writer.write(0, 8); // MD5
+
+  if (title) {
+    const le32 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, value >>> 24];
+    const comment = Array.from(ascii(`TITLE=${title}`));
+    const body = [...le32(0), ...le32(1), ...le32(comment.length), ...comment];
+    writer.write(0x80 | 4, 8);
+    writer.write(body.length, 24);
+    for (const byte of body) writer.write(byte, 8);
+  }
+
+  frames.forEach((frame, n) => {
+    const start = writer.bytes.length;
+    writer.write(0xfff8, 16);
+    writer.write(6, 4); // Block size in an 8-bit field after the frame number
+    writer.write(0, 4); // Sample rate from STREAMINFO
+    writer.write(frame.assignment, 4);
+    writer.write(0, 3); // Sample size from STREAMINFO
+    writer.write(0, 1);
+    writer.write(n, 8);
+    writer.write(blockSize - 1, 8);
+    writer.write(crc(writer.bytes.slice(start), 8, 0x07), 8);
+
+    const block = channels.map(channel => channel.slice(n * blockSize, (n + 1) * blockSize));
+    let decorrelated = block;
+    if (frame.assignment >= 8) {
+      const [left, right] = block;
+      const side = left.map((l, i) => l - right[i]);
+      decorrelated = frame.assignment === 8 ? [left, side]
+        : frame.assignment === 9 ? [side, right]
+        : [left.map((l, i) => Math.floor((l + right[i]) / 2)), side];
+    }
+    decorrelated.forEach((samples, ch) => {
+      const side = (frame.assignment === 8 || frame.assignment === 10) ? ch === 1 : frame.assignment === 9 && ch === 0;
+      writeSubframe(writer, samples, bitDepth + (side ? 1 : 0), frame.subframes[ch]);
+    });
+    writer.align();
+    writer.write(crc(writer.bytes.slice(start), 16, 0x8005), 16);
+  });
+  return Uint8Array.from(writer.bytes).buffer;
+}
+
+function expectDecodeError(data: ArrayBuffer, message: RegExp) {
+  expect(() => decodeNative(data)).toThrow(DecodeError);
+  expect(() => decodeNative(data)).toThrow(message);
+}
+
+describe('WAV', () => {
+  it.each([8, 16, 24, 32])('decodes %i-bit PCM', bitDepth => {
+    const samples = pcmSamples(bitDepth, 2);
+    const decoded = decodeNative(wav({ formatTag: 1, numChannels: 2, sampleRate: 48000, bitDepth }, samples));
+    expect(decoded).toMatchObject({ container: 'wav', sampleRate: 48000, bitDepth });
+    expect(toArrays(decoded!.channels)).toEqual(normalized(samples, bitDepth));
+  });
+
+  it.each([32, 64])('decodes %i-bit float', bitDepth => {
+    const samples = pcmSamples(24, 2).map(channel => channel.map(value => value / 2 ** 23));
+    const decoded = decodeNative(wav({ formatTag: 3, numChannels: 2, sampleRate: 96000, bitDepth }, samples));
+    expect(decoded).toMatchObject({ sampleRate: 96000, bitDepth });
+    expect(toArrays(decoded!.channels)).toEqual(samples.map(channel => channel.map(Math.fround)));
+  });
+
+  it('decodes WAVE_FORMAT_EXTENSIBLE with more than two channels', () => {
+    const samples = pcmSamples(24, 6);
+    const decoded = decodeNative(wav({ formatTag: 1, numChannels: 6, sampleRate: 48000, bitDepth: 24, extensible: true }, samples));
+    expect(decoded?.channels).toHaveLength(6);
+    expect(toArrays(decoded!.channels)).toEqual(normalized(samples, 24));
+  });
+
+  it('leaves compressed WAV to the browser decoder', () => {
+    expect(decodeNative(wav({ formatTag: 2, numChannels: 2, sampleRate: 44100, bitDepth: 4 }, [[], []]))).toBeNull();
+  });
+
+  it.each<[string, Partial<WavFmt>]>([
+    ['no channels', { numChannels: 0 }],
+    ['a zero sample rate', { sampleRate: 0 }],
+    ['a zero bit depth', { bitDepth: 0 }],
+    ['a 16-bit float', { formatTag: 3, bitDepth: 16 }],
+  ])('rejects a fmt chunk with %s', (_, fields) => {
+    const format = { formatTag: 1, numChannels: 2, sampleRate: 44100, bitDepth: 16, ...fields };
+    const data = container('RIFF', 'WAVE', [fmtChunk(format), chunk('data', new Uint8Array(64), true)]);
+    expectDecodeError(data, /Corrupt WAV file: Invalid fmt chunk/);
+  });
+
+  it('rejects a file without a data chunk', () => {
+    const data = container('RIFF', 'WAVE', [fmtChunk({ formatTag: 1, numChannels: 2, sampleRate: 44100, bitDepth: 16 })]);
+    expectDecodeError(data, /Missing data chunk/);
+  });
+
+  it('rejects an empty data chunk', () => {
+    const data = container('RIFF', 'WAVE', [fmtChunk({ formatTag: 1, numChannels: 2, sampleRate: 44100, bitDepth: 16 }), chunk('data', new Uint8Array(0), true)]);
+    expectDecodeError(data, /WAV file contains no audio/);
+  });
+
+  it('reads what is there of a truncated data chunk', () => {
+    const samples = pcmSamples(16, 2);
+    const full = new Uint8Array(wav({ formatTag: 1, numChannels: 2, sampleRate: 44100, bitDepth: 16 }, samples));
+    const decoded = decodeNative(full.slice(0, full.length - 100).buffer);
+    expect(decoded?.channels[0].length).toBe(FRAMES - 25);
+  });
+});
+
+describe('AIFF', () => {
+  it.each([16, 24])('decodes %i-bit big-endian PCM', bitDepth => {
+    const samples = pcmSamples(bitDepth, 2);
+    const sound = aiffData(samples, bitDepth / 8, (view, offset, value) => {
+      if (bitDepth === 16) view.setInt16(offset, value);
+      else {
+        view.setInt8(offset, value >> 16);
+        view.setUint16(offset + 1, value & 0xffff);
+      }
+    });
+    const decoded = decodeNative(aiff(null, 2, bitDepth, sound));
+    expect(decoded).toMatchObject({ container: 'aiff', sampleRate: 44100, bitDepth });
+    expect(toArrays(decoded!.channels)).toEqual(normalized(samples, bitDepth));
+  });
+
+  it('decodes little-endian AIFF-C (sowt)', () => {
+    const samples = pcmSamples(16, 2);
+    const decoded = decodeNative(aiff('sowt', 2, 16, aiffData(samples, 2, (view, offset, value) => view.setInt16(offset, value, true))));
+    expect(toArrays(decoded!.channels)).toEqual(normalized(samples, 16));
+  });
+
+  it('decodes float AIFF-C (fl32)', () => {
+    const samples = pcmSamples(16, 1).map(channel => channel.map(value => value / 32768));
+    const decoded = decodeNative(aiff('fl32', 1, 32, aiffData(samples, 4, (view, offset, value) => view.setFloat32(offset, value))));
+    expect(toArrays(decoded!.channels)).toEqual(samples.map(channel => channel.map(Math.fround)));
+  });
+
+  it('reads the NAME chunk as the title', () => {
+    const sound = aiffData(pcmSamples(16, 1), 2, (view, offset, value) => view.setInt16(offset, value));
+    const decoded = decodeNative(aiff(null, 1, 16, sound, [chunk('NAME', ascii('Night Drive'), false)]));
+    expect(decoded?.metadata.info?.title).toBe('Night Drive');
+  });
+
+  it('leaves other compression types to the browser decoder', () => {
+    expect(decodeNative(aiff('ima4', 2, 16, new Uint8Array(68)))).toBeNull();
+  });
+
+  it('rejects a COMM chunk with no channels', () => {
+    expectDecodeError(aiff(null, 0, 16, new Uint8Array(64)), /Corrupt AIFF file: Invalid COMM chunk/);
+  });
+
+  it('rejects a file without a SSND chunk', () => {
+    const comm = concat([bytes(8, view => { view.setInt16(0, 2); view.setUint32(2, 16); view.setInt16(6, 16); }), extended(44100)]);
+    expectDecodeError(container('FORM', 'AIFF', [chunk('COMM', comm, false)]), /Missing SSND chunk/);
+  });
+});
+
+describe('FLAC', () => {
+  const samples = pcmSamples(16, 2);
+  const frames: FlacFrame[] = [
+    { assignment: 1, subframes: [{ type: 'verbatim' }, { type: 'verbatim' }] },
+    { assignment: 8, subframes: [{ type: 'fixed2', rice: 8 }, { type: 'fixed2', rice: 9 }] },
+    { assignment: 9, subframes: [{ type: 'verbatim' }, { type: 'fixed2', rice: 8 }] },
+    { assignment: 10, subframes: [{ type: 'fixed2', rice: 8 }, { type: 'verbatim' }] },
+  ];
+
+  it('decodes verbatim and fixed subframes with every stereo decorrelation', () => {
+    const decoded = decodeNative(flac(samples, frames, { title: 'Night Drive' }));
+    expect(decoded).toMatchObject({ container: 'flac', sampleRate: 44100, bitDepth: 16 });
+    expect(decoded?.metadata.info?.title).toBe('Night Drive');
+    expect(toArrays(decoded!.channels)).toEqual(normalized(samples, 16));
+  });
+
+  it('decodes constant subframes', () => {
+    const silence = [new Array(FRAMES).fill(-7)];
+    const decoded = decodeNative(flac(silence, [{ assignment: 0, subframes: [{ type: 'constant' }] }]));
+    expect(toArrays(decoded!.channels)).toEqual(normalized(silence, 16));
+  });
+
+  it('is detected by its signature', () => {
+    expect(detectContainer(flac(samples, frames))).toBe('flac');
+  });
+
+  it('rejects a frame with a bad CRC', () => {
+    const data = new Uint8Array(flac(samples, frames));
+    data[data.length - 1] ^= 0xff;
+    expectDecodeError(data.buffer, /Corrupt FLAC file: FLAC frame CRC mismatch/);
+  });
+
+  it('rejects a stream shorter than its STREAMINFO says', () => {
+    expectDecodeError(flac(samples, frames, { totalSamples: FRAMES * 2 }), /Truncated FLAC stream/);
+  });
+});
+
+describe('detectContainer', () => {
+  it('ignores data that is none of the native containers', () => {
+    expect(detectContainer(ascii('ID3\x03\x00 not really an mp3').buffer)).toBeNull();
+    expect(decodeNative(new ArrayBuffer(0))).toBeNull();
+  });
+});
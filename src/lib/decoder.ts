@@ -0,0 +1,66 @@
+import { isAiff, readAiff } from './aiff-reader';
+import { isFlac, readFlac } from './flac-reader';
+import { readWav, readWavFormat } from './wav-reader';
+import type { WavMetadata } from './wav-metadata';
+
+export type AudioContainer = 'wav' | 'aiff' | 'flac';
+
+/** A track decoded by one of the native parsers, at its own sample rate. */
+export interface DecodedAudio {
+  container: AudioContainer;
+  sampleRate: number;
+  bitDepth: number; // Source resolution; 32 or 64 for float
+  channels: Float32Array[];
+  metadata: WavMetadata;
+}
+
+export class DecodeError extends Error {}
+
+const CONTAINER_NAMES: Record<AudioContainer, string> = { wav: 'WAV', aiff: 'AIFF', flac: 'FLAC' };
+
+/** Identifies the containers the native parsers handle, from the file's first bytes. */
+export function detectContainer(data: ArrayBuffer): AudioContainer | null {
+  if (readWavFormat(data)) return 'wav';
+  if (isAiff(data)) return 'aiff';
+  if (isFlac(data)) return 'flac';
+  return null;
+}
+
+function decodeContainer(container: AudioContainer, data: ArrayBuffer): DecodedAudio | null {
+  switch (container) {
+    case 'wav': {
+      const wav = readWav(data);
+      return wav && { container, sampleRate: wav.format.sampleRate, bitDepth: wav.format.bitDepth, channels: wav.channels, metadata: wav.metadata };
+    }
+    case 'aiff': {
+      const aiff = readAiff(data);
+      return aiff && { container, sampleRate: aiff.format.sampleRate, bitDepth: aiff.format.bitDepth, channels: aiff.channels, metadata: { info: aiff.tags ?? undefined } };
+    }
+    case 'flac': {
+      const flac = readFlac(data);
+      return flac && { container, sampleRate: flac.format.sampleRate, bitDepth: flac.format.bitDepth, channels: flac.channels, metadata: { info: flac.tags ?? undefined } };
+    }
+  }
+}
+
+/**
+ * Decodes WAV (PCM, float, extensible), AIFF/AIFF-C and FLAC without the
+ * browser. Returns null for other formats and for encodings the parsers don't
+ * cover (ADPCM WAV, compressed AIFF-C), which are left to decodeAudioData.
+ * Throws a DecodeError when a file is recognised but can't be read.
+ */
+export function decodeNative(data: ArrayBuffer): DecodedAudio | null {
+  const container = detectContainer(data);
+  if (!container) return null;
+
+  let decoded: DecodedAudio | null;
+  try {
+    decoded = decodeContainer(container, data);
+  } catch (error) {
+    throw new DecodeError(`Corrupt ${CONTAINER_NAMES[container]} file: ${error instanceof Error ? error.message : error}`);
+  }
+  if (decoded && (decoded.channels.length === 0 || decoded.channels[0].length === 0)) {
+    throw new DecodeError(`${CONTAINER_NAMES[container]} file contains no audio`);
+  }
+  return decoded;
+}
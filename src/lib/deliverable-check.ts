@@ -0,0 +1,160 @@
+import { dbToLinear, linearToDb, LoudnessMeasurement } from './loudness';
+
+/** What a distributor or broadcaster expects of a delivered master. */
+export interface SpecProfile {
+  id: string;
+  name: string;
+  lufs: number; // Integrated loudness target
+  tolerance: number; // LU either side that pass; up to twice this warns
+  maxTruePeak: number; // dBTP
+  sampleRates: number[]; // Accepted delivery rates, Hz
+  bitDepths: number[]; // Accepted delivery depths; 32 is float
+  maxLeadingSilence: number; // s
+  maxTrailingSilence: number; // s
+}
+
+const HI_RES_RATES = [44100, 48000, 88200, 96000, 176400, 192000];
+
+export const SPEC_PROFILES: SpecProfile[] = [
+  {
+    id: 'spotify', name: 'Spotify', lufs: -14, tolerance: 1, maxTruePeak: -1,
+    sampleRates: HI_RES_RATES, bitDepths: [16, 24, 32], maxLeadingSilence: 1, maxTrailingSilence: 3,
+  },
+  {
+    // 24-bit or better and no clipping; Sound Check plays back at -16 LUFS
+    id: 'apple_digital_masters', name: 'Apple Digital Masters', lufs: -16, tolerance: 2, maxTruePeak: -1,
+    sampleRates: HI_RES_RATES, bitDepths: [24, 32], maxLeadingSilence: 1, maxTrailingSilence: 3,
+  },
+  {
+    id: 'youtube', name: 'YouTube', lufs: -14, tolerance: 1, maxTruePeak: -1,
+    sampleRates: HI_RES_RATES, bitDepths: [16, 24, 32], maxLeadingSilence: 1, maxTrailingSilence: 3,
+  },
+  {
+    id: 'ebu_r128', name: 'Broadcast (EBU R128)', lufs: -23, tolerance: 0.5, maxTruePeak: -1,
+    sampleRates: [48000], bitDepths: [24], maxLeadingSilence: 0.5, maxTrailingSilence: 2,
+  },
+];
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface DeliverableCheck {
+  label: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+export interface ValidationResult {
+  profile: string; // SpecProfile name
+  status: CheckStatus; // Worst of the checks
+  checks: DeliverableCheck[];
+}
+
+/** Silence, DC and full-scale figures of a rendered master; loudness comes from the engine. */
+export interface DeliverableStats {
+  leadingSilence: number; // s
+  trailingSilence: number; // s
+  dcOffset: number; // dBFS, worst channel
+  clippedSamples: number; // At or beyond 16-bit full scale
+}
+
+/** Profile-independent measurements of a rendered master. */
+export interface DeliverableMeasurement extends DeliverableStats {
+  loudness: LoudnessMeasurement;
+}
+
+// Samples below this (every channel) count as silence
+const SILENCE_THRESHOLD = dbToLinear(-60);
+// Largest 16-bit value; anything at or above it will clamp once encoded
+const FULL_SCALE = 32767 / 32768;
+// Measurement and dither can nudge the true peak over the ceiling by this much
+const TRUE_PEAK_TOLERANCE = 0.1;
+const DC_OFFSET_WARN = -60; // dBFS
+const DC_OFFSET_FAIL = -40;
+
+const STATUS_RANK: Record<CheckStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+export function measureDeliverableStats(channels: Float32Array[], sampleRate: number): DeliverableStats {
+  const length = channels[0]?.length ?? 0;
+  const audible = (i: number) => channels.some(data => Math.abs(data[i]) >= SILENCE_THRESHOLD);
+  let first = 0;
+  while (first < length && !audible(first)) first++;
+  let last = length - 1;
+  while (last >= first && !audible(last)) last--;
+
+  let worstDc = 0;
+  let clippedSamples = 0;
+  for (const data of channels) {
+    let sum = 0;
+    for (let i = 0; i < data.length; i++) {
+      sum += data[i];
+      if (Math.abs(data[i]) >= FULL_SCALE) clippedSamples++;
+    }
+    worstDc = Math.max(worstDc, Math.abs(sum / (data.length || 1)));
+  }
+
+  return {
+    leadingSilence: first / sampleRate,
+    trailingSilence: (length - 1 - last) / sampleRate,
+    dcOffset: linearToDb(worstDc),
+    clippedSamples,
+  };
+}
+
+const formatDb = (value: number) => Number.isFinite(value) ? value.toFixed(1) : '-∞';
+
+/**
+ * Checks a measured master, as it will be delivered (sample rate and bit depth
+ * of the export), against a spec profile.
+ */
+export function validateDeliverable(
+  measurement: DeliverableMeasurement,
+  format: { sampleRate: number; bitDepth: number },
+  profile: SpecProfile
+): ValidationResult {
+  const { loudness, leadingSilence, trailingSilence, dcOffset, clippedSamples } = measurement;
+  const checks: DeliverableCheck[] = [];
+
+  const deviation = Math.abs(loudness.integrated - profile.lufs);
+  checks.push({
+    label: 'Loudness',
+    status: !Number.isFinite(deviation) ? 'fail' : deviation <= profile.tolerance ? 'pass' : deviation <= 2 * profile.tolerance ? 'warn' : 'fail',
+    detail: `${formatDb(loudness.integrated)} LUFS (target ${profile.lufs} ±${profile.tolerance})`,
+  });
+
+  checks.push({
+    label: 'True Peak',
+    status: loudness.truePeak <= profile.maxTruePeak ? 'pass' : loudness.truePeak <= profile.maxTruePeak + TRUE_PEAK_TOLERANCE ? 'warn' : 'fail',
+    detail: `${formatDb(loudness.truePeak)} dBTP (max ${profile.maxTruePeak})`,
+  });
+
+  const needs = [
+    profile.bitDepths.includes(format.bitDepth) ? null : `${profile.bitDepths.filter(d => d < 32).join(' or ')}-bit`,
+    profile.sampleRates.includes(format.sampleRate) ? null : `${profile.sampleRates.map(r => r / 1000).join(', ')} kHz`,
+  ].filter(Boolean);
+  checks.push({
+    label: 'Format',
+    status: needs.length === 0 ? 'pass' : 'fail',
+    detail: `${format.bitDepth === 32 ? '32-bit float' : `${format.bitDepth}-bit`} / ${format.sampleRate / 1000} kHz${needs.length ? ` (needs ${needs.join(', ')})` : ''}`,
+  });
+
+  checks.push({
+    label: 'Silence',
+    status: leadingSilence <= profile.maxLeadingSilence && trailingSilence <= profile.maxTrailingSilence ? 'pass' : 'warn',
+    detail: `${leadingSilence.toFixed(2)} s lead, ${trailingSilence.toFixed(2)} s tail (max ${profile.maxLeadingSilence} / ${profile.maxTrailingSilence} s)`,
+  });
+
+  checks.push({
+    label: 'DC Offset',
+    status: dcOffset <= DC_OFFSET_WARN ? 'pass' : dcOffset <= DC_OFFSET_FAIL ? 'warn' : 'fail',
+    detail: `${formatDb(dcOffset)} dBFS`,
+  });
+
+  checks.push({
+    label: 'Clipping',
+    status: clippedSamples === 0 ? 'pass' : 'fail',
+    detail: clippedSamples === 0 ? 'No samples at full scale' : `${clippedSamples} ${clippedSamples === 1 ? 'sample' : 'samples'} at full scale`,
+  });
+
+  const status = checks.reduce<CheckStatus>((worst, c) => STATUS_RANK[c.status] > STATUS_RANK[worst] ? c.status : worst, 'pass');
+  return { profile: profile.name, status, checks };
+}
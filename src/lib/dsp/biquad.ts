@@ -0,0 +1,122 @@
+export interface BiquadCoefficients {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * Transposed direct form II biquad. Runs in place on Float32Arrays so the same
+ * filters can be used for metering and for offline rendering.
+ */
+export class Biquad {
+  private z1 = 0;
+  private z2 = 0;
+
+  constructor(public coefficients: BiquadCoefficients) {}
+
+  reset() {
+    this.z1 = 0;
+    this.z2 = 0;
+  }
+
+  processSample(x: number): number {
+    const { b0, b1, b2, a1, a2 } = this.coefficients;
+    const y = b0 * x + this.z1;
+    this.z1 = b1 * x - a1 * y + this.z2;
+    this.z2 = b2 * x - a2 * y;
+    return y;
+  }
+
+  process(input: Float32Array, output: Float32Array = input): Float32Array {
+    const { b0, b1, b2, a1, a2 } = this.coefficients;
+    let z1 = this.z1;
+    let z2 = this.z2;
+    for (let i = 0; i < input.length; i++) {
+      const x = input[i];
+      const y = b0 * x + z1;
+      z1 = b1 * x - a1 * y + z2;
+      z2 = b2 * x - a2 * y;
+      output[i] = y;
+    }
+    this.z1 = z1;
+    this.z2 = z2;
+    return output;
+  }
+}
+
+export type BiquadType = 'lowpass' | 'highpass' | 'bandpass' | 'allpass' | 'peaking' | 'lowshelf' | 'highshelf';
+
+// RBJ cookbook formulas, matching the BiquadFilterNode definitions in the Web Audio spec
+export function designBiquad(
+  type: BiquadType,
+  frequency: number,
+  sampleRate: number,
+  q = Math.SQRT1_2,
+  gainDb = 0
+): BiquadCoefficients {
+  const w0 = 2 * Math.PI * Math.min(frequency, sampleRate * 0.499) / sampleRate;
+  const cos = Math.cos(w0);
+  const sin = Math.sin(w0);
+  const A = Math.pow(10, gainDb / 40);
+  const alpha = sin / (2 * q);
+
+  let b0: number, b1: number, b2: number, a0: number, a1: number, a2: number;
+  switch (type) {
+    case 'lowpass':
+      b0 = (1 - cos) / 2; b1 = 1 - cos; b2 = (1 - cos) / 2;
+      a0 = 1 + alpha; a1 = -2 * cos; a2 = 1 - alpha;
+      break;
+    case 'highpass':
+      b0 = (1 + cos) / 2; b1 = -(1 + cos); b2 = (1 + cos) / 2;
+      a0 = 1 + alpha; a1 = -2 * cos; a2 = 1 - alpha;
+      break;
+    case 'bandpass':
+      b0 = alpha; b1 = 0; b2 = -alpha;
+      a0 = 1 + alpha; a1 = -2 * cos; a2 = 1 - alpha;
+      break;
+    case 'allpass':
+      b0 = 1 - alpha; b1 = -2 * cos; b2 = 1 + alpha;
+      a0 = 1 + alpha; a1 = -2 * cos; a2 = 1 - alpha;
+      break;
+    case 'peaking':
+      b0 = 1 + alpha * A; b1 = -2 * cos; b2 = 1 - alpha * A;
+      a0 = 1 + alpha / A; a1 = -2 * cos; a2 = 1 - alpha / A;
+      break;
+    case 'lowshelf': {
+      // Shelf slope S = 1, as used by BiquadFilterNode
+      const beta = 2 * Math.sqrt(A) * (sin / 2) * Math.SQRT2;
+      b0 = A * ((A + 1) - (A - 1) * cos + beta);
+      b1 = 2 * A * ((A - 1) - (A + 1) * cos);
+      b2 = A * ((A + 1) - (A - 1) * cos - beta);
+      a0 = (A + 1) + (A - 1) * cos + beta;
+      a1 = -2 * ((A - 1) + (A + 1) * cos);
+      a2 = (A + 1) + (A - 1) * cos - beta;
+      break;
+    }
+    case 'highshelf': {
+      const beta = 2 * Math.sqrt(A) * (sin / 2) * Math.SQRT2;
+      b0 = A * ((A + 1) + (A - 1) * cos + beta);
+      b1 = -2 * A * ((A - 1) + (A + 1) * cos);
+      b2 = A * ((A + 1) + (A - 1) * cos - beta);
+      a0 = (A + 1) - (A - 1) * cos + beta;
+      a1 = 2 * ((A - 1) - (A + 1) * cos);
+      a2 = (A + 1) - (A - 1) * cos - beta;
+      break;
+    }
+  }
+
+  return { b0: b0 / a0, b1: b1 / a0, b2: b2 / a0, a1: a1 / a0, a2: a2 / a0 };
+}
+
+// Magnitude response (dB) of a biquad at one frequency
+export function magnitudeDb(coefficients: BiquadCoefficients, frequency: number, sampleRate: number): number {
+  const { b0, b1, b2, a1, a2 } = coefficients;
+  const w = 2 * Math.PI * frequency / sampleRate;
+  const cos1 = Math.cos(w), sin1 = Math.sin(w);
+  const cos2 = Math.cos(2 * w), sin2 = Math.sin(2 * w);
+  const numRe = b0 + b1 * cos1 + b2 * cos2, numIm = -(b1 * sin1 + b2 * sin2);
+  const denRe = 1 + a1 * cos1 + a2 * cos2, denIm = -(a1 * sin1 + a2 * sin2);
+  return 10 * Math.log10((numRe * numRe + numIm * numIm) / (denRe * denRe + denIm * denIm));
+}
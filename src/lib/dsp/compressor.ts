@@ -0,0 +1,69 @@
+import { timeCoefficient } from './envelope';
+
+export interface CompressorParams {
+  threshold: number; // dB
+  ratio: number;
+  knee: number; // dB, width of the soft knee
+  attack: number; // ms
+  release: number; // ms
+}
+
+// DynamicsCompressorNode defaults
+export const DEFAULT_COMPRESSOR: CompressorParams = {
+  threshold: -24,
+  ratio: 12,
+  knee: 30,
+  attack: 3,
+  release: 250,
+};
+
+const EPSILON = 1e-9;
+
+/**
+ * Feed-forward, stereo-linked peak compressor with a quadratic soft knee. Unlike
+ * DynamicsCompressorNode there is no automatic make-up gain: loudness targeting
+ * sets the final level after the chain.
+ */
+export class Compressor {
+  private params: CompressorParams;
+  private attackCoeff: number;
+  private releaseCoeff: number;
+  private reduction = 0; // dB, <= 0
+
+  constructor(sampleRate: number, params: Partial<CompressorParams>) {
+    this.params = { ...DEFAULT_COMPRESSOR, ...params };
+    this.params.ratio = Math.min(20, Math.max(1, this.params.ratio));
+    this.params.threshold = Math.min(0, Math.max(-100, this.params.threshold));
+    this.attackCoeff = timeCoefficient(sampleRate, this.params.attack);
+    this.releaseCoeff = timeCoefficient(sampleRate, this.params.release);
+  }
+
+  private gainComputer(levelDb: number): number {
+    const { threshold, ratio, knee } = this.params;
+    const over = levelDb - threshold;
+    if (2 * over < -knee) return 0;
+    if (knee > 0 && 2 * Math.abs(over) <= knee) {
+      return (1 / ratio - 1) * Math.pow(over + knee / 2, 2) / (2 * knee);
+    }
+    return over * (1 / ratio - 1);
+  }
+
+  process(input: Float32Array[], output: Float32Array[], gainOut?: Float32Array) {
+    const numChannels = Math.min(input.length, output.length);
+    const length = input[0]?.length ?? 0;
+
+    for (let i = 0; i < length; i++) {
+      let peak = 0;
+      for (let ch = 0; ch < numChannels; ch++) peak = Math.max(peak, Math.abs(input[ch][i]));
+
+      const target = this.gainComputer(20 * Math.log10(peak + EPSILON));
+      // Attack while reduction deepens, release while it recovers
+      const coeff = target < this.reduction ? this.attackCoeff : this.releaseCoeff;
+      this.reduction = target + coeff * (this.reduction - target);
+      const gain = Math.pow(10, this.reduction / 20);
+
+      for (let ch = 0; ch < numChannels; ch++) output[ch][i] = input[ch][i] * gain;
+      if (gainOut) gainOut[i] = gain;
+    }
+  }
+}
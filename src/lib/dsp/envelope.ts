@@ -0,0 +1,27 @@
+/**
+ * One-pole peak envelope follower with separate attack and release times.
+ */
+export class EnvelopeFollower {
+  private value = 0;
+  private attackCoeff: number;
+  private releaseCoeff: number;
+
+  constructor(sampleRate: number, attackMs: number, releaseMs: number) {
+    this.attackCoeff = timeCoefficient(sampleRate, attackMs);
+    this.releaseCoeff = timeCoefficient(sampleRate, releaseMs);
+  }
+
+  get current(): number {
+    return this.value;
+  }
+
+  next(level: number): number {
+    const coeff = level > this.value ? this.attackCoeff : this.releaseCoeff;
+    this.value = level + coeff * (this.value - level);
+    return this.value;
+  }
+}
+
+export function timeCoefficient(sampleRate: number, ms: number): number {
+  return ms > 0 ? Math.exp(-1 / (sampleRate * ms / 1000)) : 0;
+}
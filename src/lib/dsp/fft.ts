@@ -0,0 +1,58 @@
+/**
+ * In-place iterative radix-2 FFT on separate real and imaginary arrays. Twiddles
+ * and the bit-reversal order are precomputed, so one instance serves every frame.
+ */
+export class FFT {
+  private cos: Float64Array;
+  private sin: Float64Array;
+  private reversed: Uint32Array;
+
+  constructor(readonly size: number) {
+    if (size < 2 || (size & (size - 1)) !== 0) throw new Error('FFT size must be a power of two');
+    this.cos = new Float64Array(size / 2);
+    this.sin = new Float64Array(size / 2);
+    for (let i = 0; i < size / 2; i++) {
+      this.cos[i] = Math.cos(2 * Math.PI * i / size);
+      this.sin[i] = -Math.sin(2 * Math.PI * i / size);
+    }
+    this.reversed = new Uint32Array(size);
+    const bits = Math.log2(size);
+    for (let i = 0; i < size; i++) {
+      let r = 0;
+      for (let b = 0; b < bits; b++) r |= ((i >> b) & 1) << (bits - 1 - b);
+      this.reversed[i] = r;
+    }
+  }
+
+  forward(real: Float64Array, imag: Float64Array) {
+    const { size, reversed } = this;
+    for (let i = 0; i < size; i++) {
+      const j = reversed[i];
+      if (j > i) {
+        [real[i], real[j]] = [real[j], real[i]];
+        [imag[i], imag[j]] = [imag[j], imag[i]];
+      }
+    }
+    for (let half = 1; half < size; half *= 2) {
+      const step = size / (half * 2);
+      for (let start = 0; start < size; start += half * 2) {
+        for (let k = 0; k < half; k++) {
+          const wr = this.cos[k * step], wi = this.sin[k * step];
+          const a = start + k, b = a + half;
+          const tr = real[b] * wr - imag[b] * wi;
+          const ti = real[b] * wi + imag[b] * wr;
+          real[b] = real[a] - tr;
+          imag[b] = imag[a] - ti;
+          real[a] += tr;
+          imag[a] += ti;
+        }
+      }
+    }
+  }
+}
+
+export function hannWindow(size: number): Float64Array {
+  const window = new Float64Array(size);
+  for (let i = 0; i < size; i++) window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / size);
+  return window;
+}
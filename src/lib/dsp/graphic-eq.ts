@@ -0,0 +1,48 @@
+import { Biquad, designBiquad, magnitudeDb } from './biquad';
+
+export interface GraphicEqBand {
+  frequency: number; // Hz, band centre
+  gain: number; // dB wanted at the centre
+}
+
+// Bandwidth of one third of an octave
+const THIRD_OCTAVE_Q = 4.32;
+const SOLVER_ITERATIONS = 12;
+const MAX_BAND_GAIN = 12; // dB
+// Bands this close to flat after solving are left out of the filter bank
+const MIN_BAND_GAIN = 0.05; // dB
+
+/**
+ * Bank of one-third-octave peaking filters that reproduces a curve at the band
+ * centres. Neighbouring bands overlap, so each band's gain is solved against the
+ * summed response of the bank rather than used as-is.
+ */
+export class GraphicEq {
+  private filters: Biquad[][];
+
+  constructor(sampleRate: number, numChannels: number, bands: GraphicEqBand[]) {
+    const usable = bands.filter(band => band.frequency < sampleRate * 0.45);
+    const gains = usable.map(band => band.gain);
+    const design = () => usable.map((band, i) => designBiquad('peaking', band.frequency, sampleRate, THIRD_OCTAVE_Q, gains[i]));
+
+    for (let iteration = 0; iteration < SOLVER_ITERATIONS; iteration++) {
+      const bank = design();
+      usable.forEach((band, i) => {
+        const response = bank.reduce((sum, c) => sum + magnitudeDb(c, band.frequency, sampleRate), 0);
+        // Damped update; the overlap makes the undamped one oscillate
+        gains[i] = Math.max(-MAX_BAND_GAIN, Math.min(MAX_BAND_GAIN, gains[i] + 0.5 * (band.gain - response)));
+      });
+    }
+
+    const bank = design().filter((_, i) => Math.abs(gains[i]) >= MIN_BAND_GAIN);
+    this.filters = Array.from({ length: numChannels }, () => bank.map(c => new Biquad(c)));
+  }
+
+  process(input: Float32Array[], output: Float32Array[]) {
+    this.filters.forEach((filters, ch) => {
+      if (!input[ch] || !output[ch]) return;
+      if (filters.length === 0 && input[ch] !== output[ch]) output[ch].set(input[ch]);
+      filters.forEach((f, i) => f.process(i === 0 ? input[ch] : output[ch], output[ch]));
+    });
+  }
+}
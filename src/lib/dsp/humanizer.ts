@@ -0,0 +1,82 @@
+import { Biquad, designBiquad } from './biquad';
+import { EnvelopeFollower, timeCoefficient } from './envelope';
+
+export interface HumanizerParams {
+  deHarshDepth: number; // Maximum dB cut when 2-8 kHz energy spikes
+  expansion: number; // Upward expansion slope, 0 = off (0.2 ~ 1:1.2)
+  maxBoost: number; // dB ceiling for the expander
+}
+
+const DE_HARSH_FREQUENCY = 4000;
+const DE_HARSH_Q = 0.7;
+// How far (dB) the fast 2-8 kHz envelope must rise above its running average before cutting
+const SPIKE_THRESHOLD = 3;
+const COEFFICIENT_INTERVAL = 32;
+const EPSILON = 1e-9;
+
+/**
+ * AI humanizer pass: a dynamic peaking cut at 4 kHz that only engages when 2-8 kHz
+ * energy spikes above its own average, followed by a gentle upward expander that
+ * lifts transients relative to the surrounding level to restore micro-dynamics.
+ */
+export class Humanizer {
+  private detector: Biquad[];
+  private deHarsh: Biquad[];
+  private harshFast: EnvelopeFollower;
+  private harshSlow: EnvelopeFollower;
+  private levelFast: EnvelopeFollower;
+  private levelSlow: EnvelopeFollower;
+  private smoothing: number;
+  private cut = 0;
+  private boost = 0;
+  private counter = 0;
+
+  constructor(private sampleRate: number, numChannels: number, private params: HumanizerParams) {
+    this.detector = [
+      new Biquad(designBiquad('highpass', 2000, sampleRate)),
+      new Biquad(designBiquad('lowpass', 8000, sampleRate)),
+    ];
+    this.deHarsh = Array.from({ length: numChannels }, () =>
+      new Biquad(designBiquad('peaking', DE_HARSH_FREQUENCY, sampleRate, DE_HARSH_Q, 0))
+    );
+    this.harshFast = new EnvelopeFollower(sampleRate, 2, 40);
+    this.harshSlow = new EnvelopeFollower(sampleRate, 300, 800);
+    this.levelFast = new EnvelopeFollower(sampleRate, 1, 60);
+    this.levelSlow = new EnvelopeFollower(sampleRate, 80, 400);
+    this.smoothing = timeCoefficient(sampleRate, 5);
+  }
+
+  process(input: Float32Array[], output: Float32Array[]) {
+    const { deHarshDepth, expansion, maxBoost } = this.params;
+    const numChannels = Math.min(input.length, output.length);
+    const length = input[0]?.length ?? 0;
+
+    for (let i = 0; i < length; i++) {
+      let mid = 0;
+      let level = 0;
+      for (let ch = 0; ch < numChannels; ch++) {
+        mid += input[ch][i];
+        level = Math.max(level, Math.abs(input[ch][i]));
+      }
+      const harsh = Math.abs(this.detector[1].processSample(this.detector[0].processSample(mid / numChannels)));
+
+      const spike = 20 * Math.log10((this.harshFast.next(harsh) + EPSILON) / (this.harshSlow.next(harsh) + EPSILON));
+      const targetCut = -Math.min(deHarshDepth, Math.max(0, spike - SPIKE_THRESHOLD));
+      this.cut = targetCut + this.smoothing * (this.cut - targetCut);
+
+      if (this.counter++ % COEFFICIENT_INTERVAL === 0) {
+        const coefficients = designBiquad('peaking', DE_HARSH_FREQUENCY, this.sampleRate, DE_HARSH_Q, this.cut);
+        for (const filter of this.deHarsh) filter.coefficients = coefficients;
+      }
+
+      const contrast = 20 * Math.log10((this.levelFast.next(level) + EPSILON) / (this.levelSlow.next(level) + EPSILON));
+      const targetBoost = Math.min(maxBoost, Math.max(0, contrast * expansion));
+      this.boost = targetBoost + this.smoothing * (this.boost - targetBoost);
+      const gain = Math.pow(10, this.boost / 20);
+
+      for (let ch = 0; ch < numChannels; ch++) {
+        output[ch][i] = this.deHarsh[ch].processSample(input[ch][i]) * gain;
+      }
+    }
+  }
+}
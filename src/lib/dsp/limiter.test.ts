@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { measureTruePeak } from '../loudness';
+import { TruePeakLimiter } from './limiter';
+
+const SAMPLE_RATE = 48000;
+// Same overshoot the CLI tolerates on an encoded master
+const TOLERANCE = 0.1;
+
+// Runs the whole signal through the limiter, flushing the look-ahead, and drops the latency
+function limit(channels: Float32Array[], ceiling: number, release = 50): Float32Array[] {
+  const limiter = new TruePeakLimiter(SAMPLE_RATE, channels.length, { ceiling, lookahead: 1.5, release });
+  const length = channels[0].length;
+  const input = channels.map(data => {
+    const padded = new Float32Array(length + limiter.latency);
+    padded.set(data);
+    return padded;
+  });
+  const output = input.map(data => new Float32Array(data.length));
+  limiter.process(input, output);
+  return output.map(data => data.subarray(limiter.latency));
+}
+
+function signal(seconds: number, sample: (t: number, i: number) => number): Float32Array {
+  const data = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < data.length; i++) data[i] = sample(i / SAMPLE_RATE, i);
+  return data;
+}
+
+// Deterministic noise, so a failure reproduces
+function noise(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 0x80000000 - 1;
+  };
+}
+
+const HOT_MATERIAL: [string, () => Float32Array[]][] = [
+  ['a +12 dBFS square wave', () => {
+    const square = signal(2, t => (Math.sin(2 * Math.PI * 997 * t) >= 0 ? 4 : -4));
+    return [square, square];
+  }],
+  ['near-Nyquist bursts', () => {
+    const burst = signal(2, t => (Math.floor(t / 0.05) % 2 === 0 ? 3 * Math.sin(2 * Math.PI * 0.45 * SAMPLE_RATE * t + 0.3) : 0));
+    return [burst, burst.map(x => -x)];
+  }],
+  ['fs/4 at 45° phase, where every peak is between samples', () => {
+    const sine = signal(2, t => 2 * Math.sin(2 * Math.PI * (SAMPLE_RATE / 4) * t + Math.PI / 4));
+    return [sine, sine];
+  }],
+  ['full-scale alternating samples with clicks', () => {
+    const random = noise(1);
+    return [0, 1].map(() => signal(2, (_, i) => (i % 4800 === 0 ? 8 : (i % 2 ? 1 : -1) * 2 * Math.abs(random()))));
+  }],
+  ['loud noise', () => {
+    const random = noise(7);
+    return [0, 1].map(() => signal(2, () => 3 * random()));
+  }],
+];
+
+describe('TruePeakLimiter', () => {
+  it.each(HOT_MATERIAL)('keeps %s under the ceiling in dBTP', (_, make) => {
+    for (const ceiling of [-1, -0.1, -3]) {
+      const truePeak = measureTruePeak(limit(make(), ceiling));
+      expect(truePeak).toBeLessThanOrEqual(ceiling + TOLERANCE);
+      // Limiting, not muting
+      expect(truePeak).toBeGreaterThan(ceiling - 3);
+    }
+  });
+
+  it('leaves material under the ceiling untouched', () => {
+    const sine = signal(1, t => 0.5 * Math.sin(2 * Math.PI * 440 * t));
+    const [output] = limit([sine], -1);
+    for (let i = 0; i < sine.length; i++) expect(output[i]).toBe(sine[i]);
+  });
+});
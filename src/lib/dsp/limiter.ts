@@ -0,0 +1,154 @@
+import { TruePeakDetector, TRUE_PEAK_LATENCY } from './true-peak';
+import { timeCoefficient } from './envelope';
+
+export interface LimiterParams {
+  ceiling: number; // dBTP
+  lookahead: number; // ms
+  release: number; // ms
+}
+
+export function limiterLatency(sampleRate: number, lookaheadMs: number): number {
+  return Math.max(1, Math.round(sampleRate * lookaheadMs / 1000)) + TRUE_PEAK_LATENCY;
+}
+
+/**
+ * Look-ahead brickwall limiter with 4x-oversampled peak detection. The required gain
+ * is min-held for the length of the delay line and box-smoothed over the look-ahead
+ * window, so the gain ramps down before a peak and has settled by the time it leaves
+ * the delay line. Output is delayed by `limiterLatency()` samples.
+ */
+export class TruePeakLimiter {
+  readonly latency: number;
+  private window: number;
+  private hold: number;
+  private ceiling: number;
+  private releaseCoeff: number;
+  private detectors: TruePeakDetector[];
+  private delay: Float32Array[];
+  private delayPos = 0;
+  // Monotonic deque (ring buffer) of required gains for the sliding minimum
+  private minValues: Float32Array;
+  private minIndices: Int32Array;
+  private minHead = 0;
+  private minTail = 0;
+  private box: Float32Array;
+  private boxSum: number;
+  private boxPos = 0;
+  private envelope = 1;
+  private frame = 0;
+
+  constructor(sampleRate: number, numChannels: number, params: LimiterParams) {
+    this.window = Math.max(1, Math.round(sampleRate * params.lookahead / 1000));
+    this.latency = limiterLatency(sampleRate, params.lookahead);
+    this.hold = this.latency + 1;
+    this.ceiling = Math.pow(10, params.ceiling / 20);
+    this.releaseCoeff = timeCoefficient(sampleRate, params.release);
+    this.detectors = Array.from({ length: numChannels }, () => new TruePeakDetector());
+    this.delay = Array.from({ length: numChannels }, () => new Float32Array(this.latency));
+    this.minValues = new Float32Array(this.hold + 1);
+    this.minIndices = new Int32Array(this.hold + 1);
+    this.box = new Float32Array(this.window).fill(1);
+    this.boxSum = this.window;
+  }
+
+  // `gainOut` optionally receives the applied gain per sample for gain-reduction metering
+  process(input: Float32Array[], output: Float32Array[], gainOut?: Float32Array) {
+    const numChannels = Math.min(input.length, output.length, this.delay.length);
+    const length = input[0]?.length ?? 0;
+    const size = this.hold + 1;
+
+    for (let i = 0; i < length; i++) {
+      let peak = 0;
+      for (let ch = 0; ch < numChannels; ch++) {
+        const p = this.detectors[ch].next(input[ch][i]);
+        if (p > peak) peak = p;
+      }
+      const required = peak > this.ceiling ? this.ceiling / peak : 1;
+
+      // Sliding minimum over the hold window
+      while (this.minHead !== this.minTail) {
+        const last = (this.minTail - 1 + size) % size;
+        if (this.minValues[last] < required) break;
+        this.minTail = last;
+      }
+      this.minValues[this.minTail] = required;
+      this.minIndices[this.minTail] = this.frame;
+      this.minTail = (this.minTail + 1) % size;
+      if (this.minIndices[this.minHead] <= this.frame - this.hold) {
+        this.minHead = (this.minHead + 1) % size;
+      }
+      const held = this.minValues[this.minHead];
+
+      this.boxSum += held - this.box[this.boxPos];
+      this.box[this.boxPos] = held;
+      this.boxPos = (this.boxPos + 1) % this.window;
+      const smoothed = this.boxSum / this.window;
+
+      // Attack is handled by the look-ahead; only the release is exponential
+      this.envelope = smoothed < this.envelope
+        ? smoothed
+        : smoothed + this.releaseCoeff * (this.envelope - smoothed);
+
+      for (let ch = 0; ch < numChannels; ch++) {
+        const delayed = this.delay[ch][this.delayPos];
+        this.delay[ch][this.delayPos] = input[ch][i];
+        output[ch][i] = delayed * this.envelope;
+      }
+      if (gainOut) gainOut[i] = this.envelope;
+      this.delayPos = (this.delayPos + 1) % this.latency;
+      this.frame++;
+    }
+  }
+}
+
+export interface GainReductionReport {
+  max: number; // dB of reduction, positive
+  average: number; // dB, averaged over the whole track
+  active: number; // Percent of samples reduced by more than 0.1 dB
+  history: number[]; // Max reduction per segment, for the meter
+}
+
+/**
+ * Builds a GainReductionReport from a gain envelope that arrives in blocks, so
+ * the full-length envelope never has to be kept. `length` is the total expected.
+ */
+export class GainReductionMeter {
+  private history: number[];
+  private segmentLength: number;
+  private position = 0;
+  private max = 0;
+  private sum = 0;
+  private active = 0;
+
+  constructor(length: number, segments = 120) {
+    this.history = new Array<number>(segments).fill(0);
+    this.segmentLength = Math.max(1, Math.ceil(length / segments));
+  }
+
+  add(gain: Float32Array) {
+    for (let i = 0; i < gain.length; i++) {
+      const reduction = gain[i] > 0 ? -20 * Math.log10(Math.min(1, gain[i])) : 0;
+      if (reduction > this.max) this.max = reduction;
+      if (reduction > 0.1) this.active++;
+      this.sum += reduction;
+      const segment = Math.min(this.history.length - 1, Math.floor(this.position++ / this.segmentLength));
+      if (reduction > this.history[segment]) this.history[segment] = reduction;
+    }
+  }
+
+  report(): GainReductionReport {
+    const count = this.position;
+    return {
+      max: this.max,
+      average: count ? this.sum / count : 0,
+      active: count ? (this.active / count) * 100 : 0,
+      history: this.history,
+    };
+  }
+}
+
+export function summarizeGainReduction(gain: Float32Array, segments = 120): GainReductionReport {
+  const meter = new GainReductionMeter(gain.length, segments);
+  meter.add(gain);
+  return meter.report();
+}
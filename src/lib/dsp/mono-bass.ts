@@ -0,0 +1,32 @@
+import { Biquad, designBiquad } from './biquad';
+
+/**
+ * Sums everything below `frequency` to mono and keeps the stereo image above it.
+ * LR4 low + high bands sum to an allpass, so kicks stay phase-coherent across the split.
+ */
+export class MonoBass {
+  private lowpass: Biquad[];
+  private highpass: Biquad[][];
+
+  constructor(sampleRate: number, numChannels: number, frequency: number) {
+    // Linkwitz-Riley 4th order: two cascaded Butterworth sections
+    const section = (type: 'lowpass' | 'highpass') => [0, 1].map(() => new Biquad(designBiquad(type, frequency, sampleRate)));
+    this.lowpass = section('lowpass');
+    this.highpass = Array.from({ length: numChannels }, () => section('highpass'));
+  }
+
+  process(input: Float32Array[], output: Float32Array[]) {
+    const numChannels = Math.min(input.length, output.length, this.highpass.length);
+    const length = input[0]?.length ?? 0;
+
+    for (let i = 0; i < length; i++) {
+      let mid = 0;
+      for (let ch = 0; ch < numChannels; ch++) mid += input[ch][i];
+      const low = this.lowpass[1].processSample(this.lowpass[0].processSample(mid / numChannels));
+      for (let ch = 0; ch < numChannels; ch++) {
+        const high = this.highpass[ch][1].processSample(this.highpass[ch][0].processSample(input[ch][i]));
+        output[ch][i] = low + high;
+      }
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { Biquad, designBiquad } from './biquad';
+import { MultibandCompressor } from './multiband';
+
+const SAMPLE_RATE = 48000;
+const CROSSOVERS = [120, 1000, 6000];
+// Ratio 1: the bands pass through their compressors unchanged
+const UNITY = { threshold: 0, ratio: 1, knee: 0 };
+
+function split(input: Float32Array): Float32Array {
+  const compressor = new MultibandCompressor(SAMPLE_RATE, 1, CROSSOVERS, Array.from({ length: CROSSOVERS.length + 1 }, () => UNITY));
+  const output = new Float32Array(input.length);
+  compressor.process([input], [output]);
+  return output;
+}
+
+function sine(frequency: number, seconds: number, amplitude = 0.1): Float32Array {
+  const data = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < data.length; i++) data[i] = amplitude * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE);
+  return data;
+}
+
+const rms = (data: Float32Array) => Math.sqrt(data.reduce((sum, x) => sum + x * x, 0) / data.length);
+
+describe('MultibandCompressor', () => {
+  it('sums to the input through the crossovers\' allpass', () => {
+    let state = 1;
+    const input = new Float32Array(SAMPLE_RATE).map(() => {
+      state = (state * 1664525 + 1013904223) >>> 0;
+      return (state / 0x80000000 - 1) * 0.5;
+    });
+    // An LR4 low and high pass add up to the second-order allpass at their crossover
+    const expected = input.slice();
+    for (const frequency of CROSSOVERS) new Biquad(designBiquad('allpass', frequency, SAMPLE_RATE)).process(expected);
+
+    const output = split(input);
+    let maxError = 0;
+    for (let i = 0; i < input.length; i++) maxError = Math.max(maxError, Math.abs(output[i] - expected[i]));
+    expect(maxError).toBeLessThan(1e-4);
+  });
+
+  it('has a flat magnitude response within ±0.01 dB from 20 Hz to 20 kHz', () => {
+    for (let n = 0; n <= 30; n++) {
+      const frequency = 20 * Math.pow(1000, n / 30);
+      // Whole cycles after the filters settle, so the RMS is exact
+      const settle = Math.round(0.25 * SAMPLE_RATE);
+      const input = sine(frequency, 1);
+      const cycles = Math.floor((input.length - settle) * frequency / SAMPLE_RATE);
+      const end = settle + Math.round(cycles * SAMPLE_RATE / frequency);
+      const gain = 20 * Math.log10(rms(split(input).subarray(settle, end)) / rms(input.subarray(settle, end)));
+      expect(Math.abs(gain), `${frequency.toFixed(0)} Hz`).toBeLessThanOrEqual(0.01);
+    }
+  });
+
+  it('rejects a band count that does not match the crossovers', () => {
+    expect(() => new MultibandCompressor(SAMPLE_RATE, 2, [200], [UNITY])).toThrow();
+  });
+});
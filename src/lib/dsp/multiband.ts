@@ -0,0 +1,74 @@
+import { Biquad, designBiquad } from './biquad';
+import { Compressor, CompressorParams } from './compressor';
+
+/**
+ * Crossover compressor: the signal is split into bands by Linkwitz-Riley
+ * 4th-order crossovers, each band is compressed on its own and the bands are
+ * summed. Each band also passes the allpass of every crossover it did not go
+ * through, so all bands carry the same phase shift and, with no gain reduction,
+ * the sum is the input through a pure allpass (flat magnitude).
+ */
+export class MultibandCompressor {
+  private lowpass: Biquad[][][]; // [crossover][channel] -> two Butterworth sections
+  private highpass: Biquad[][][];
+  private allpass: Biquad[][][]; // [band][channel] -> compensation for later crossovers
+  private compressors: Compressor[];
+  private rest: Float32Array[] = [];
+  private bands: Float32Array[][] = [];
+
+  constructor(sampleRate: number, private numChannels: number, crossovers: number[], bands: Partial<CompressorParams>[]) {
+    if (bands.length !== crossovers.length + 1) throw new Error('A multiband compressor needs one more band than crossovers');
+    const sections = (type: 'lowpass' | 'highpass', frequency: number) =>
+      Array.from({ length: numChannels }, () => [0, 1].map(() => new Biquad(designBiquad(type, frequency, sampleRate))));
+    this.lowpass = crossovers.map(f => sections('lowpass', f));
+    this.highpass = crossovers.map(f => sections('highpass', f));
+    // Band b has gone through crossovers up to b; the ones above it only reach it as phase
+    this.allpass = bands.map((_, b) => Array.from({ length: numChannels }, () =>
+      crossovers.slice(b + 1).map(f => new Biquad(designBiquad('allpass', f, sampleRate)))));
+    this.compressors = bands.map(params => new Compressor(sampleRate, params));
+  }
+
+  private ensureScratch(length: number) {
+    if ((this.rest[0]?.length ?? 0) >= length) return;
+    this.rest = Array.from({ length: this.numChannels }, () => new Float32Array(length));
+    this.bands = this.compressors.map(() => Array.from({ length: this.numChannels }, () => new Float32Array(length)));
+  }
+
+  /**
+   * `gainOut[b]`, when given, receives band b's linear gain per frame.
+   */
+  process(input: Float32Array[], output: Float32Array[], gainOut?: Float32Array[]) {
+    const numChannels = Math.min(input.length, output.length, this.numChannels);
+    const length = input[0]?.length ?? 0;
+    this.ensureScratch(length);
+    const last = this.compressors.length - 1;
+    const bands = this.bands.map(band => band.map(data => data.subarray(0, length)));
+
+    for (let ch = 0; ch < numChannels; ch++) {
+      const rest = this.rest[ch].subarray(0, length);
+      rest.set(input[ch]);
+      for (let c = 0; c < last; c++) {
+        const band = bands[c][ch];
+        band.set(rest);
+        for (const f of this.lowpass[c][ch]) f.process(band);
+        for (const f of this.allpass[c][ch]) f.process(band);
+        for (const f of this.highpass[c][ch]) f.process(rest);
+      }
+      bands[last][ch].set(rest);
+    }
+
+    this.compressors.forEach((compressor, b) => {
+      const io = bands[b].slice(0, numChannels);
+      compressor.process(io, io, gainOut?.[b]);
+    });
+
+    for (let ch = 0; ch < numChannels; ch++) {
+      const out = output[ch];
+      out.set(bands[0][ch]);
+      for (let b = 1; b <= last; b++) {
+        const band = bands[b][ch];
+        for (let i = 0; i < length; i++) out[i] += band[i];
+      }
+    }
+  }
+}
@@ -0,0 +1,60 @@
+const HALF_TAPS = 32;
+const TABLE_RESOLUTION = 512;
+const KAISER_BETA = 9;
+
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  for (let k = 1; k < 32; k++) {
+    term *= (x / (2 * k)) * (x / (2 * k));
+    sum += term;
+  }
+  return sum;
+}
+
+// Kaiser-windowed sinc over [0, HALF_TAPS], sampled TABLE_RESOLUTION times per tap
+const KERNEL_TABLE: Float32Array = (() => {
+  const table = new Float32Array(HALF_TAPS * TABLE_RESOLUTION + 2);
+  const norm = besselI0(KAISER_BETA);
+  for (let i = 0; i < table.length; i++) {
+    const t = i / TABLE_RESOLUTION;
+    const r = Math.min(1, t / HALF_TAPS);
+    const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+    table[i] = sinc * besselI0(KAISER_BETA * Math.sqrt(1 - r * r)) / norm;
+  }
+  return table;
+})();
+
+function kernel(t: number): number {
+  const position = Math.abs(t) * TABLE_RESOLUTION;
+  const index = Math.floor(position);
+  if (index >= KERNEL_TABLE.length - 1) return 0;
+  const frac = position - index;
+  return KERNEL_TABLE[index] + (KERNEL_TABLE[index + 1] - KERNEL_TABLE[index]) * frac;
+}
+
+/**
+ * Band-limited sample-rate conversion by windowed-sinc interpolation. When
+ * downsampling the cutoff follows the new Nyquist frequency to avoid aliasing.
+ */
+export function resample(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return new Float32Array(input);
+
+  const ratio = toRate / fromRate;
+  const cutoff = Math.min(1, ratio) * 0.97;
+  const outputLength = Math.round(input.length * ratio);
+  const output = new Float32Array(outputLength);
+  const span = HALF_TAPS / cutoff;
+
+  for (let n = 0; n < outputLength; n++) {
+    const center = n / ratio;
+    const first = Math.max(0, Math.ceil(center - span));
+    const last = Math.min(input.length - 1, Math.floor(center + span));
+    let sum = 0;
+    for (let k = first; k <= last; k++) {
+      sum += input[k] * kernel((center - k) * cutoff);
+    }
+    output[n] = sum * cutoff;
+  }
+  return output;
+}
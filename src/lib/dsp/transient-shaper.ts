@@ -0,0 +1,70 @@
+import { Biquad, designBiquad } from './biquad';
+import { EnvelopeFollower, timeCoefficient } from './envelope';
+
+export interface TransientShaperParams {
+  attack: number; // dB of boost applied on kick/808 onsets
+  sustain: number; // dB applied to decay tails, negative shortens them
+  crossover: number; // Hz, only the band below this is shaped
+}
+
+// Ratio between the fast and slow envelopes (in dB) at which a term reaches full effect
+const FULL_SCALE_DB = 6;
+const EPSILON = 1e-9;
+
+/**
+ * Low-band transient designer. The signal is split with a Linkwitz-Riley crossover,
+ * the low band is gained by the difference between fast and slow envelopes, and the
+ * bands are summed again, so with attack = sustain = 0 the output is an allpass of the input.
+ */
+export class TransientShaper {
+  private lowpass: Biquad[][];
+  private highpass: Biquad[][];
+  private attackFast: EnvelopeFollower;
+  private attackSlow: EnvelopeFollower;
+  private sustainFast: EnvelopeFollower;
+  private sustainSlow: EnvelopeFollower;
+  private gainSmooth: number;
+  private gain = 1;
+
+  constructor(sampleRate: number, numChannels: number, private params: TransientShaperParams) {
+    const section = (type: 'lowpass' | 'highpass') =>
+      Array.from({ length: numChannels }, () => [0, 1].map(() => new Biquad(designBiquad(type, params.crossover, sampleRate))));
+    this.lowpass = section('lowpass');
+    this.highpass = section('highpass');
+
+    this.attackFast = new EnvelopeFollower(sampleRate, 0.5, 80);
+    this.attackSlow = new EnvelopeFollower(sampleRate, 25, 80);
+    this.sustainFast = new EnvelopeFollower(sampleRate, 0.5, 30);
+    this.sustainSlow = new EnvelopeFollower(sampleRate, 0.5, 300);
+    this.gainSmooth = timeCoefficient(sampleRate, 1);
+  }
+
+  process(input: Float32Array[], output: Float32Array[]) {
+    const { attack, sustain } = this.params;
+    const numChannels = Math.min(input.length, output.length);
+    const length = input[0]?.length ?? 0;
+    const low = new Float32Array(numChannels);
+
+    for (let i = 0; i < length; i++) {
+      let level = 0;
+      for (let ch = 0; ch < numChannels; ch++) {
+        const x = input[ch][i];
+        low[ch] = this.lowpass[ch][1].processSample(this.lowpass[ch][0].processSample(x));
+        level = Math.max(level, Math.abs(low[ch]));
+      }
+
+      // Stereo-linked detection so the low end doesn't wander between channels
+      const onset = 20 * Math.log10((this.attackFast.next(level) + EPSILON) / (this.attackSlow.next(level) + EPSILON));
+      const tail = 20 * Math.log10((this.sustainSlow.next(level) + EPSILON) / (this.sustainFast.next(level) + EPSILON));
+      const attackTerm = Math.min(1, Math.max(0, onset) / FULL_SCALE_DB);
+      const sustainTerm = Math.min(1, Math.max(0, tail) / FULL_SCALE_DB);
+      const target = Math.pow(10, (attack * attackTerm + sustain * sustainTerm) / 20);
+      this.gain = target + this.gainSmooth * (this.gain - target);
+
+      for (let ch = 0; ch < numChannels; ch++) {
+        const high = this.highpass[ch][1].processSample(this.highpass[ch][0].processSample(input[ch][i]));
+        output[ch][i] = low[ch] * this.gain + high;
+      }
+    }
+  }
+}
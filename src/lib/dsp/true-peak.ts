@@ -0,0 +1,50 @@
+const OVERSAMPLING = 4;
+const TAPS_PER_PHASE = 12;
+
+// Windowed-sinc interpolation filter for 4x true-peak detection, split into polyphase branches
+const PHASES: Float32Array[] = (() => {
+  const length = OVERSAMPLING * TAPS_PER_PHASE;
+  const center = (length - 1) / 2;
+  const phases = Array.from({ length: OVERSAMPLING }, () => new Float32Array(TAPS_PER_PHASE));
+  for (let n = 0; n < length; n++) {
+    const t = (n - center) / OVERSAMPLING;
+    const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+    const window = 0.42 - 0.5 * Math.cos(2 * Math.PI * n / (length - 1)) + 0.08 * Math.cos(4 * Math.PI * n / (length - 1));
+    phases[n % OVERSAMPLING][Math.floor(n / OVERSAMPLING)] = sinc * window;
+  }
+  for (const phase of phases) {
+    const sum = phase.reduce((a, b) => a + b, 0);
+    for (let i = 0; i < phase.length; i++) phase[i] /= sum;
+  }
+  return phases;
+})();
+
+// Group delay of the interpolator, in input samples
+export const TRUE_PEAK_LATENCY = Math.ceil(TAPS_PER_PHASE / 2);
+
+/**
+ * Streaming 4x-oversampled peak detector for a single channel. `next` returns the
+ * largest absolute value among the input sample and the interpolated points
+ * preceding it (delayed by TRUE_PEAK_LATENCY).
+ */
+export class TruePeakDetector {
+  private history = new Float32Array(TAPS_PER_PHASE);
+  private position = 0;
+
+  next(x: number): number {
+    this.history[this.position] = x;
+    let peak = Math.abs(x);
+    for (const phase of PHASES) {
+      let y = 0;
+      let idx = this.position;
+      for (let k = 0; k < TAPS_PER_PHASE; k++) {
+        y += phase[k] * this.history[idx];
+        idx = idx === 0 ? TAPS_PER_PHASE - 1 : idx - 1;
+      }
+      const abs = Math.abs(y);
+      if (abs > peak) peak = abs;
+    }
+    this.position = (this.position + 1) % TAPS_PER_PHASE;
+    return peak;
+  }
+}
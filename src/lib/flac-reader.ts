@@ -0,0 +1,366 @@
+import type { Id3Tags } from './id3';
+
+export interface FlacFormat {
+  numChannels: number;
+  sampleRate: number;
+  bitDepth: number;
+  totalSamples: number; // Per channel; 0 when the encoder didn't know
+}
+
+export interface FlacFile {
+  format: FlacFormat;
+  channels: Float32Array[];
+  tags: Id3Tags | null;
+}
+
+const STREAMINFO = 0;
+const VORBIS_COMMENT = 4;
+
+const COMMENT_FIELDS: Record<string, keyof Id3Tags> = {
+  TITLE: 'title',
+  ARTIST: 'artist',
+  ALBUM: 'album',
+  DATE: 'year',
+  GENRE: 'genre',
+  COMMENT: 'comment',
+  DESCRIPTION: 'comment',
+  TRACKNUMBER: 'track',
+};
+
+const SAMPLE_SIZES = [0, 8, 12, 0, 16, 20, 24, 32];
+
+const CRC8_TABLE = new Uint8Array(256);
+const CRC16_TABLE = new Uint16Array(256);
+for (let i = 0; i < 256; i++) {
+  let crc8 = i;
+  let crc16 = i << 8;
+  for (let bit = 0; bit < 8; bit++) {
+    crc8 = crc8 & 0x80 ? ((crc8 << 1) ^ 0x07) & 0xff : (crc8 << 1) & 0xff;
+    crc16 = crc16 & 0x8000 ? ((crc16 << 1) ^ 0x8005) & 0xffff : (crc16 << 1) & 0xffff;
+  }
+  CRC8_TABLE[i] = crc8;
+  CRC16_TABLE[i] = crc16;
+}
+
+function crc8(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) crc = CRC8_TABLE[crc ^ bytes[i]];
+  return crc;
+}
+
+function crc16(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]];
+  return crc;
+}
+
+// MSB-first bit reader; values are built with arithmetic so 33-bit side samples stay exact
+class BitReader {
+  byte = 0;
+  private bit = 0;
+
+  constructor(private bytes: Uint8Array, start: number) {
+    this.byte = start;
+  }
+
+  readUint(bits: number): number {
+    let value = 0;
+    while (bits > 0) {
+      if (this.byte >= this.bytes.length) throw new Error('Unexpected end of FLAC stream');
+      const available = 8 - this.bit;
+      const take = Math.min(available, bits);
+      value = value * (1 << take) + ((this.bytes[this.byte] >>> (available - take)) & ((1 << take) - 1));
+      bits -= take;
+      this.bit += take;
+      if (this.bit === 8) {
+        this.bit = 0;
+        this.byte++;
+      }
+    }
+    return value;
+  }
+
+  readInt(bits: number): number {
+    const value = this.readUint(bits);
+    return bits > 0 && value >= 2 ** (bits - 1) ? value - 2 ** bits : value;
+  }
+
+  // Number of 0 bits before the next 1, which is consumed
+  readUnary(): number {
+    let count = 0;
+    for (;;) {
+      if (this.byte >= this.bytes.length) throw new Error('Unexpected end of FLAC stream');
+      const rest = this.bytes[this.byte] & (0xff >>> this.bit);
+      if (rest) {
+        const first = Math.clz32(rest) - 24;
+        count += first - this.bit;
+        this.bit = first + 1;
+        if (this.bit === 8) {
+          this.bit = 0;
+          this.byte++;
+        }
+        return count;
+      }
+      count += 8 - this.bit;
+      this.bit = 0;
+      this.byte++;
+    }
+  }
+
+  alignToByte(): void {
+    if (this.bit) {
+      this.bit = 0;
+      this.byte++;
+    }
+  }
+}
+
+export function isFlac(data: ArrayBuffer): boolean {
+  return flacStart(new Uint8Array(data)) >= 0;
+}
+
+// Offset of the fLaC marker, after an ID3v2 tag some taggers prepend
+function flacStart(bytes: Uint8Array): number {
+  let offset = 0;
+  if (bytes.length >= 10 && bytes[0] === 0x49 && bytes[1] === 0x44 && bytes[2] === 0x33) {
+    offset = 10 + ((bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9]);
+  }
+  const isMarker = bytes.length >= offset + 4
+    && bytes[offset] === 0x66 && bytes[offset + 1] === 0x4c && bytes[offset + 2] === 0x61 && bytes[offset + 3] === 0x43;
+  return isMarker ? offset : -1;
+}
+
+function readVorbisComment(bytes: Uint8Array, start: number, end: number): Id3Tags {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const text = new TextDecoder('utf-8');
+  const tags: Id3Tags = {};
+  let offset = start + 4 + view.getUint32(start, true); // Skip the vendor string
+  const count = offset + 4 <= end ? view.getUint32(offset, true) : 0;
+  offset += 4;
+  for (let i = 0; i < count && offset + 4 <= end; i++) {
+    const length = view.getUint32(offset, true);
+    const comment = text.decode(bytes.subarray(offset + 4, Math.min(end, offset + 4 + length)));
+    const separator = comment.indexOf('=');
+    const field = COMMENT_FIELDS[comment.slice(0, separator).toUpperCase()];
+    const value = comment.slice(separator + 1).trim();
+    if (separator > 0 && field && value && !tags[field]) tags[field] = value;
+    offset += 4 + length;
+  }
+  return tags;
+}
+
+// Fills samples[order..] from the residual already stored there
+function restoreFixed(samples: Float64Array, order: number, length: number): void {
+  for (let i = order; i < length; i++) {
+    switch (order) {
+      case 1: samples[i] += samples[i - 1]; break;
+      case 2: samples[i] += 2 * samples[i - 1] - samples[i - 2]; break;
+      case 3: samples[i] += 3 * (samples[i - 1] - samples[i - 2]) + samples[i - 3]; break;
+      case 4: samples[i] += 4 * (samples[i - 1] + samples[i - 3]) - 6 * samples[i - 2] - samples[i - 4]; break;
+    }
+  }
+}
+
+function restoreLpc(samples: Float64Array, coefficients: number[], shift: number, length: number): void {
+  const order = coefficients.length;
+  const scale = 2 ** shift;
+  for (let i = order; i < length; i++) {
+    let prediction = 0;
+    for (let j = 0; j < order; j++) prediction += coefficients[j] * samples[i - 1 - j];
+    samples[i] += Math.floor(prediction / scale);
+  }
+}
+
+function readResidual(reader: BitReader, samples: Float64Array, order: number, blockSize: number): void {
+  const method = reader.readUint(2);
+  if (method > 1) throw new Error('Reserved FLAC residual coding method');
+  const parameterBits = method === 0 ? 4 : 5;
+  const escape = method === 0 ? 15 : 31;
+  const partitionOrder = reader.readUint(4);
+  const partitions = 1 << partitionOrder;
+  const partitionSize = blockSize >> partitionOrder;
+  if (partitionSize << partitionOrder !== blockSize || partitionSize < order) throw new Error('Invalid FLAC residual partition');
+
+  let i = order;
+  for (let p = 0; p < partitions; p++) {
+    const end = (p + 1) * partitionSize;
+    const parameter = reader.readUint(parameterBits);
+    if (parameter === escape) {
+      const bits = reader.readUint(5);
+      for (; i < end; i++) samples[i] = reader.readInt(bits);
+      continue;
+    }
+    const scale = 2 ** parameter;
+    for (; i < end; i++) {
+      const value = reader.readUnary() * scale + reader.readUint(parameter);
+      samples[i] = value % 2 ? -(value + 1) / 2 : value / 2;
+    }
+  }
+}
+
+function readSubframe(reader: BitReader, samples: Float64Array, blockSize: number, bitDepth: number): void {
+  if (reader.readUint(1)) throw new Error('Invalid FLAC subframe header');
+  const type = reader.readUint(6);
+  const wasted = reader.readUint(1) ? reader.readUnary() + 1 : 0;
+  const bits = bitDepth - wasted;
+
+  if (type === 0) {
+    samples.fill(reader.readInt(bits), 0, blockSize);
+  } else if (type === 1) {
+    for (let i = 0; i < blockSize; i++) samples[i] = reader.readInt(bits);
+  } else if (type >= 8 && type <= 12) {
+    const order = type - 8;
+    for (let i = 0; i < order; i++) samples[i] = reader.readInt(bits);
+    readResidual(reader, samples, order, blockSize);
+    restoreFixed(samples, order, blockSize);
+  } else if (type >= 32) {
+    const order = type - 31;
+    for (let i = 0; i < order; i++) samples[i] = reader.readInt(bits);
+    const precision = reader.readUint(4) + 1;
+    if (precision === 16) throw new Error('Invalid FLAC LPC precision');
+    const shift = reader.readInt(5);
+    if (shift < 0) throw new Error('Negative FLAC LPC shift');
+    const coefficients = Array.from({ length: order }, () => reader.readInt(precision));
+    readResidual(reader, samples, order, blockSize);
+    restoreLpc(samples, coefficients, shift, blockSize);
+  } else {
+    throw new Error('Reserved FLAC subframe type');
+  }
+
+  if (wasted) {
+    const scale = 2 ** wasted;
+    for (let i = 0; i < blockSize; i++) samples[i] *= scale;
+  }
+}
+
+// Skips the UTF-8 style coded frame/sample number
+function skipCodedNumber(reader: BitReader): void {
+  const first = reader.readUint(8);
+  const extra = first < 0x80 ? 0 : Math.clz32(~(first << 24)) - 1;
+  if (extra < 0 || extra > 6 || (first >= 0x80 && extra === 0)) throw new Error('Invalid FLAC frame number');
+  reader.readUint(8 * extra);
+}
+
+/**
+ * Decodes a native FLAC stream (all fixed and LPC subframes, 4 to 32 bits)
+ * with its Vorbis comments. Returns null when the data isn't FLAC; throws on a
+ * corrupt stream.
+ */
+export function readFlac(data: ArrayBuffer): FlacFile | null {
+  const bytes = new Uint8Array(data);
+  const start = flacStart(bytes);
+  if (start < 0) return null;
+
+  let format: FlacFormat | null = null;
+  let tags: Id3Tags | null = null;
+  let offset = start + 4;
+  for (let last = false; !last;) {
+    if (offset + 4 > bytes.length) throw new Error('Truncated FLAC metadata');
+    last = (bytes[offset] & 0x80) !== 0;
+    const type = bytes[offset] & 0x7f;
+    const length = (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const body = offset + 4;
+    if (body + length > bytes.length) throw new Error('Truncated FLAC metadata');
+    if (type === STREAMINFO && length >= 34) {
+      const reader = new BitReader(bytes, body + 10);
+      format = {
+        sampleRate: reader.readUint(20),
+        numChannels: reader.readUint(3) + 1,
+        bitDepth: reader.readUint(5) + 1,
+        totalSamples: reader.readUint(36),
+      };
+    } else if (type === VORBIS_COMMENT) {
+      tags = { ...readVorbisComment(bytes, body, body + length), ...tags };
+    }
+    offset = body + length;
+  }
+  if (!format) throw new Error('Missing FLAC STREAMINFO');
+  if (format.sampleRate === 0) throw new Error('Invalid FLAC sample rate');
+
+  const { numChannels } = format;
+  let capacity = format.totalSamples || 1 << 20;
+  let channels = Array.from({ length: numChannels }, () => new Float32Array(capacity));
+  let scratch = Array.from({ length: numChannels }, () => new Float64Array(0));
+  let decoded = 0;
+
+  const reader = new BitReader(bytes, offset);
+  while (reader.byte + 2 <= bytes.length) {
+    const frameStart = reader.byte;
+    // Anything after the last frame that isn't a sync code (an ID3v1 tag, padding) ends the stream
+    if (bytes[frameStart] !== 0xff || (bytes[frameStart + 1] & 0xfe) !== 0xf8) break;
+
+    reader.readUint(16);
+    const blockSizeCode = reader.readUint(4);
+    const sampleRateCode = reader.readUint(4);
+    const assignment = reader.readUint(4);
+    const sampleSizeCode = reader.readUint(3);
+    reader.readUint(1);
+    skipCodedNumber(reader);
+
+    let blockSize: number;
+    if (blockSizeCode === 0) throw new Error('Reserved FLAC block size');
+    else if (blockSizeCode === 1) blockSize = 192;
+    else if (blockSizeCode <= 5) blockSize = 576 << (blockSizeCode - 2);
+    else if (blockSizeCode === 6) blockSize = reader.readUint(8) + 1;
+    else if (blockSizeCode === 7) blockSize = reader.readUint(16) + 1;
+    else blockSize = 256 << (blockSizeCode - 8);
+
+    if (sampleRateCode === 12) reader.readUint(8);
+    else if (sampleRateCode === 13 || sampleRateCode === 14) reader.readUint(16);
+    else if (sampleRateCode === 15) throw new Error('Invalid FLAC sample rate code');
+
+    const bitDepth = sampleSizeCode === 0 ? format.bitDepth : SAMPLE_SIZES[sampleSizeCode];
+    if (!bitDepth) throw new Error('Reserved FLAC sample size');
+    const frameChannels = assignment < 8 ? assignment + 1 : 2;
+    if (assignment > 10 || frameChannels !== numChannels) throw new Error('FLAC frame channel layout does not match STREAMINFO');
+    if (crc8(bytes, frameStart, reader.byte) !== reader.readUint(8)) throw new Error('FLAC frame header CRC mismatch');
+
+    if (scratch[0].length < blockSize) scratch = scratch.map(() => new Float64Array(blockSize));
+    for (let ch = 0; ch < numChannels; ch++) {
+      // The side channel carries one extra bit
+      const side = (assignment === 8 || assignment === 10) ? ch === 1 : assignment === 9 && ch === 0;
+      readSubframe(reader, scratch[ch], blockSize, bitDepth + (side ? 1 : 0));
+    }
+    reader.alignToByte();
+    if (crc16(bytes, frameStart, reader.byte) !== reader.readUint(16)) throw new Error('FLAC frame CRC mismatch');
+
+    if (assignment >= 8) {
+      const [a, b] = scratch;
+      for (let i = 0; i < blockSize; i++) {
+        if (assignment === 8) {
+          b[i] = a[i] - b[i];
+        } else if (assignment === 9) {
+          a[i] += b[i];
+        } else {
+          const mid = a[i] * 2 + Math.abs(b[i] % 2);
+          a[i] = (mid + b[i]) / 2;
+          b[i] = (mid - b[i]) / 2;
+        }
+      }
+    }
+
+    if (decoded + blockSize > capacity) {
+      capacity = Math.max(capacity * 2, decoded + blockSize);
+      channels = channels.map(data => {
+        const grown = new Float32Array(capacity);
+        grown.set(data.subarray(0, decoded));
+        return grown;
+      });
+    }
+    const scale = 2 ** (bitDepth - 1);
+    for (let ch = 0; ch < numChannels; ch++) {
+      const source = scratch[ch];
+      const target = channels[ch];
+      for (let i = 0; i < blockSize; i++) target[decoded + i] = source[i] / scale;
+    }
+    decoded += blockSize;
+  }
+
+  if (format.totalSamples && decoded < format.totalSamples) throw new Error('Truncated FLAC stream');
+  const length = format.totalSamples || decoded;
+  return {
+    format,
+    channels: channels.map(data => data.length === length ? data : data.slice(0, length)),
+    tags: tags && Object.keys(tags).length ? tags : null,
+  };
+}
@@ -0,0 +1,79 @@
+import type { GoogleGenAI } from '@google/genai';
+import { AssistantError, AssistantInput, AssistantModel, LocalAssistant, suggestionSchema } from './assistant';
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+// Value of GEMINI_API_KEY in .env.example
+const PLACEHOLDER_KEY = 'MY_GEMINI_API_KEY';
+
+const SYSTEM_INSTRUCTION = `You are a mastering engineer setting up an automated mastering chain for one track.
+Pick the preset from the library that best fits the brief and the measurements, an intensity (0-100, 50 is the preset as designed) and the 808 bass engine settings.
+808 engine: impact is the low-shelf boost (Soft, Heavy, Savage); punch is the 808 envelope (Short, Tight, Long); weight is the shelf frequency (Low, Balanced, Deep = lower);
+clubSafe sums the low end to mono below monoFrequency Hz; phoneSafe cuts the extreme sub.
+Reduce intensity for dense mixes with a low crest factor and don't boost a low end that already measures heavy.
+Write the rationale as two or three short sentences addressed to the artist, citing the measurements you relied on.`;
+
+const round = (value: number) => Number.isFinite(value) ? Math.round(value * 10) / 10 : null;
+
+// The measurements the model needs, without the long-term spectrum
+function describeInput({ analysis, brief, presets }: AssistantInput): string {
+  return JSON.stringify({
+    brief: brief.trim() || '(no brief given)',
+    analysis: {
+      integratedLufs: round(analysis.lufs),
+      truePeakDbtp: round(analysis.truePeak),
+      loudnessRangeLu: round(analysis.dynamicRange),
+      crestFactorDb: round(analysis.crestFactor),
+      bandLevelsDb: analysis.bandLevels && Object.fromEntries(Object.entries(analysis.bandLevels).map(([band, level]) => [band, round(level)])),
+      bassBalance: analysis.bassBalance,
+      stereoWidth: analysis.stereoWidth,
+      clipping: analysis.clipping,
+      issues: analysis.issues,
+    },
+    presets: presets.map(p => ({
+      id: p.id,
+      name: p.name,
+      description: p.description,
+      targetLufs: p.loudness.lufs,
+      ceilingDbtp: p.limiter.ceiling,
+      archival: p.loudness.archival,
+      multiband: !!p.multiband,
+      defaultBass: p.bass,
+    })),
+  });
+}
+
+export class GeminiAssistant implements AssistantModel {
+  readonly name = `Gemini (${GEMINI_MODEL})`;
+  private client: Promise<GoogleGenAI> | null = null;
+
+  constructor(private apiKey: string) {}
+
+  async suggest(input: AssistantInput, signal?: AbortSignal): Promise<unknown> {
+    // The SDK is loaded on first use so it stays out of the main bundle
+    this.client ??= import('@google/genai').then(({ GoogleGenAI }) => new GoogleGenAI({ apiKey: this.apiKey }));
+    const client = await this.client;
+    const response = await client.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: describeInput(input),
+      config: {
+        systemInstruction: SYSTEM_INSTRUCTION,
+        responseMimeType: 'application/json',
+        responseJsonSchema: suggestionSchema(input.presets.map(p => p.id)),
+        abortSignal: signal,
+      },
+    });
+    if (!response.text) throw new AssistantError('Gemini returned an empty response');
+    try {
+      return JSON.parse(response.text);
+    } catch {
+      throw new AssistantError('Gemini returned malformed JSON');
+    }
+  }
+}
+
+/**
+ * Gemini when an API key is configured, otherwise the local rules.
+ */
+export function createAssistant(apiKey = process.env.GEMINI_API_KEY): AssistantModel {
+  return apiKey && apiKey !== PLACEHOLDER_KEY ? new GeminiAssistant(apiKey) : new LocalAssistant();
+}
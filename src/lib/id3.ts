@@ -0,0 +1,89 @@
+export interface Id3Tags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  year?: string;
+  genre?: string;
+  comment?: string;
+  track?: string;
+}
+
+const FRAME_FIELDS: Record<string, keyof Id3Tags> = {
+  TIT2: 'title', TT2: 'title',
+  TPE1: 'artist', TP1: 'artist',
+  TALB: 'album', TAL: 'album',
+  TDRC: 'year', TYER: 'year', TYE: 'year',
+  TCON: 'genre', TCO: 'genre',
+  COMM: 'comment', COM: 'comment',
+  TRCK: 'track', TRK: 'track',
+};
+
+function synchsafe(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+}
+
+function decodeText(bytes: Uint8Array): string {
+  const encoding = bytes[0];
+  const body = bytes.subarray(1);
+  let text: string;
+  if (encoding === 1 || encoding === 2) {
+    const bigEndian = encoding === 2 || (body[0] === 0xfe && body[1] === 0xff);
+    const start = encoding === 1 ? 2 : 0;
+    text = new TextDecoder(bigEndian ? 'utf-16be' : 'utf-16le').decode(body.subarray(start));
+  } else {
+    text = new TextDecoder(encoding === 3 ? 'utf-8' : 'latin1').decode(body);
+  }
+  return text.replace(/\0+$/, '').split('\0').pop()!.trim();
+}
+
+// ID3v1 genre numbers as used by "(17)" style TCON values
+function normalizeGenre(genre: string): string {
+  return genre.replace(/^\((\d+)\)$/, '$1');
+}
+
+/**
+ * Reads the common text frames of an ID3v2.2/2.3/2.4 tag starting at `offset`
+ * (0 for MP3 files, or the start of an `id3 ` chunk in WAV/AIFF).
+ */
+export function readId3Tags(data: ArrayBuffer, offset = 0): Id3Tags | null {
+  const bytes = new Uint8Array(data);
+  if (bytes.length < offset + 10 || bytes[offset] !== 0x49 || bytes[offset + 1] !== 0x44 || bytes[offset + 2] !== 0x33) {
+    return null;
+  }
+
+  const version = bytes[offset + 3];
+  const flags = bytes[offset + 5];
+  const end = Math.min(bytes.length, offset + 10 + synchsafe(bytes, offset + 6));
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+  let position = offset + 10;
+
+  // Skip the extended header
+  if (flags & 0x40 && version >= 3) {
+    const size = version === 4 ? synchsafe(bytes, position) : new DataView(data).getUint32(position);
+    position += version === 4 ? size : size + 4;
+  }
+
+  const tags: Id3Tags = {};
+  while (position + headerLength <= end) {
+    const id = String.fromCharCode(...bytes.subarray(position, position + idLength));
+    if (!/^[A-Z0-9]+$/.test(id)) break;
+
+    let size: number;
+    if (version === 2) size = (bytes[position + 3] << 16) | (bytes[position + 4] << 8) | bytes[position + 5];
+    else if (version === 4) size = synchsafe(bytes, position + 4);
+    else size = new DataView(data).getUint32(position + 4);
+
+    const field = FRAME_FIELDS[id];
+    const frame = bytes.subarray(position + headerLength, Math.min(end, position + headerLength + size));
+    if (field && frame.length > 1 && !tags[field]) {
+      // COMM frames carry a 3-byte language and a short description before the text
+      const value = field === 'comment'
+        ? decodeText(new Uint8Array([frame[0], ...frame.subarray(4)]))
+        : decodeText(frame);
+      if (value) tags[field] = field === 'genre' ? normalizeGenre(value) : value;
+    }
+    position += headerLength + size;
+  }
+  return tags;
+}
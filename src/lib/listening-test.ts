@@ -0,0 +1,47 @@
+import type { ABTrack } from './ab-player';
+
+export type BlindSlot = 'A' | 'B';
+
+/**
+ * One blind trial: the original and master are hidden behind slots A and B in a
+ * random order, and X is a random one of the two.
+ */
+export interface BlindTrial {
+  slots: Record<BlindSlot, ABTrack>;
+  x: BlindSlot;
+}
+
+export interface ListeningResult {
+  at: number; // Timestamp
+  preferred: ABTrack;
+  identifiedX: boolean | null; // Whether X was matched to the right slot; null if not answered
+  offset: number; // dB of gain compensation in effect (master minus original loudness)
+}
+
+export function newBlindTrial(): BlindTrial {
+  const masterFirst = Math.random() < 0.5;
+  return {
+    slots: masterFirst ? { A: 'processed', B: 'original' } : { A: 'original', B: 'processed' },
+    x: Math.random() < 0.5 ? 'A' : 'B',
+  };
+}
+
+/**
+ * Playback trims (dB) that bring both versions to the same integrated loudness.
+ * Only the louder one is turned down, so matching can never clip.
+ */
+export function loudnessMatch(original: number, processed: number): Record<ABTrack, number> {
+  if (!Number.isFinite(original) || !Number.isFinite(processed)) return { original: 0, processed: 0 };
+  const offset = processed - original;
+  return offset > 0 ? { original: 0, processed: -offset } : { original: offset, processed: 0 };
+}
+
+export function summarizeResults(results: ListeningResult[]) {
+  const answeredX = results.filter(r => r.identifiedX !== null);
+  return {
+    trials: results.length,
+    preferredMaster: results.filter(r => r.preferred === 'processed').length,
+    identified: answeredX.filter(r => r.identifiedX).length,
+    answeredX: answeredX.length,
+  };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { linearToDb, measureIntegratedLoudness, measureLoudness, measureTruePeak } from './loudness';
+
+const SAMPLE_RATE = 48000;
+
+// Sine segments of [dBFS, seconds], played back to back
+function sineSequence(segments: [number, number][], frequency = 1000, phase = 0): Float32Array {
+  const length = segments.reduce((sum, [, seconds]) => sum + Math.round(seconds * SAMPLE_RATE), 0);
+  const data = new Float32Array(length);
+  let offset = 0;
+  for (const [level, seconds] of segments) {
+    const amplitude = Math.pow(10, level / 20);
+    const end = offset + Math.round(seconds * SAMPLE_RATE);
+    for (let i = offset; i < end; i++) data[i] = amplitude * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE + phase);
+    offset = end;
+  }
+  return data;
+}
+
+const stereo = (data: Float32Array) => [data, data];
+
+describe('integrated loudness', () => {
+  it('reads a stereo 997 Hz sine at -20 dBFS as -20 LUFS', () => {
+    expect(measureIntegratedLoudness(stereo(sineSequence([[-20, 10]], 997)), SAMPLE_RATE)).toBeCloseTo(-20, 1);
+  });
+
+  it('reads the same sine on one channel 3 dB lower', () => {
+    expect(measureIntegratedLoudness([sineSequence([[-20, 10]], 997)], SAMPLE_RATE)).toBeCloseTo(-23.01, 1);
+  });
+
+  // EBU Tech 3341 minimum requirements, ±0.1 LU
+  it.each<[string, [number, number][], number]>([
+    ['case 1', [[-23, 20]], -23],
+    ['case 2', [[-33, 20]], -33],
+    ['case 3', [[-36, 10], [-23, 60], [-36, 10]], -23],
+    ['case 4', [[-72, 10], [-36, 10], [-23, 60], [-36, 10], [-72, 10]], -23],
+    ['case 5', [[-26, 20], [-20, 20.1], [-26, 20]], -23],
+  ])('meets EBU Tech 3341 %s', (_, segments, expected) => {
+    expect(Math.abs(measureIntegratedLoudness(stereo(sineSequence(segments)), SAMPLE_RATE) - expected)).toBeLessThanOrEqual(0.1);
+  });
+
+  it('meets EBU Tech 3341 case 6: 5.1 channel weighting', () => {
+    const channels = [-28, -28, -24, -Infinity, -30, -30].map(level => sineSequence([[level, 20]]));
+    expect(Math.abs(measureIntegratedLoudness(channels, SAMPLE_RATE) + 23)).toBeLessThanOrEqual(0.1);
+  });
+
+  it('reads silence as -Infinity', () => {
+    expect(measureIntegratedLoudness(stereo(new Float32Array(SAMPLE_RATE * 5)), SAMPLE_RATE)).toBe(-Infinity);
+  });
+});
+
+describe('loudness range', () => {
+  // EBU Tech 3342 minimum requirements, ±1 LU
+  it.each<[string, [number, number][], number]>([
+    ['case 1', [[-20, 20], [-30, 20]], 10],
+    ['case 2', [[-20, 20], [-15, 20]], 5],
+    ['case 3', [[-40, 20], [-20, 20]], 20],
+    ['case 4', [[-50, 20], [-35, 20], [-20, 20], [-35, 20], [-50, 20]], 15],
+  ])('meets EBU Tech 3342 %s', (_, segments, expected) => {
+    const { loudnessRange } = measureLoudness(stereo(sineSequence(segments)), SAMPLE_RATE);
+    expect(Math.abs(loudnessRange - expected)).toBeLessThanOrEqual(1);
+  });
+});
+
+describe('true peak', () => {
+  // EBU Tech 3341 case 16: samples sit at ±0.707 of the peak, which falls between them
+  it('finds the inter-sample peak of an fs/4 sine at 45° phase', () => {
+    const sine = sineSequence([[-6, 1]], SAMPLE_RATE / 4, Math.PI / 4);
+    const samplePeak = linearToDb(sine.reduce((max, x) => Math.max(max, Math.abs(x)), 0));
+    const truePeak = measureTruePeak(stereo(sine));
+    expect(samplePeak).toBeCloseTo(-9.01, 1);
+    expect(truePeak).toBeGreaterThanOrEqual(-6.4);
+    expect(truePeak).toBeLessThanOrEqual(-5.8);
+  });
+
+  it('matches the sample peak of a low-frequency sine', () => {
+    expect(measureTruePeak([sineSequence([[-1, 1]], 100)])).toBeCloseTo(-1, 1);
+  });
+});
@@ -0,0 +1,230 @@
+import { Biquad, BiquadCoefficients } from './dsp/biquad';
+import { TruePeakDetector } from './dsp/true-peak';
+
+export interface LoudnessMeasurement {
+  integrated: number; // LUFS
+  momentaryMax: number; // LUFS, 400 ms window
+  shortTermMax: number; // LUFS, 3 s window
+  loudnessRange: number; // LU
+  truePeak: number; // dBTP
+  samplePeak: number; // dBFS
+}
+
+export interface DynamicsReport {
+  plrBefore: number; // Peak-to-loudness ratio, dB
+  plrAfter: number;
+  lraBefore: number; // LU
+  lraAfter: number;
+  retained: number; // Percent of the source PLR still present
+}
+
+export interface LoudnessCurve {
+  momentary: Float32Array; // LUFS
+  shortTerm: Float32Array; // LUFS
+  step: number; // Seconds between values
+}
+
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+const LRA_RELATIVE_GATE = -20;
+
+// ITU-R BS.1770-4 K-weighting, re-derived for any sample rate (same constants as libebur128)
+function kWeightingStages(sampleRate: number): BiquadCoefficients[] {
+  let f0 = 1681.974450955533;
+  const G = 3.999843853973347;
+  let Q = 0.7071752369554196;
+  let K = Math.tan(Math.PI * f0 / sampleRate);
+  const Vh = Math.pow(10, G / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf: BiquadCoefficients = {
+    b0: (Vh + Vb * K / Q + K * K) / a0,
+    b1: 2 * (K * K - Vh) / a0,
+    b2: (Vh - Vb * K / Q + K * K) / a0,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  f0 = 38.13547087602444;
+  Q = 0.5003270373238773;
+  K = Math.tan(Math.PI * f0 / sampleRate);
+  a0 = 1 + K / Q + K * K;
+  const highpass: BiquadCoefficients = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  return [shelf, highpass];
+}
+
+// Channel weights per BS.1770: surrounds of a 5.1 layout get +1.5 dB, the LFE is excluded
+function channelWeights(numChannels: number): number[] {
+  if (numChannels === 6) return [1, 1, 1, 0, 1.41, 1.41];
+  return Array.from({ length: numChannels }, () => 1);
+}
+
+export function energyToLufs(energy: number): number {
+  return energy > 0 ? -0.691 + 10 * Math.log10(energy) : -Infinity;
+}
+
+export function lufsToEnergy(lufs: number): number {
+  return Math.pow(10, (lufs + 0.691) / 10);
+}
+
+export function linearToDb(value: number): number {
+  return value > 0 ? 20 * Math.log10(value) : -Infinity;
+}
+
+export function dbToLinear(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+/**
+ * Weighted, K-filtered mean-square energy of every 100 ms step of the signal.
+ * Momentary (4 steps) and short-term (30 steps) windows are assembled from these.
+ */
+function stepEnergies(channels: Float32Array[], sampleRate: number): { energies: Float64Array; stepSize: number } {
+  const stepSize = Math.round(sampleRate * 0.1);
+  const length = channels[0]?.length ?? 0;
+  const numSteps = Math.floor(length / stepSize);
+  const energies = new Float64Array(numSteps);
+  const weights = channelWeights(channels.length);
+  const stages = kWeightingStages(sampleRate);
+  const scratch = new Float32Array(length);
+
+  channels.forEach((data, ch) => {
+    if (weights[ch] === 0) return;
+    scratch.set(data);
+    for (const coefficients of stages) new Biquad(coefficients).process(scratch);
+    for (let s = 0; s < numSteps; s++) {
+      let sum = 0;
+      const start = s * stepSize;
+      for (let i = start; i < start + stepSize; i++) sum += scratch[i] * scratch[i];
+      energies[s] += weights[ch] * sum;
+    }
+  });
+
+  return { energies, stepSize };
+}
+
+function windowEnergies(steps: Float64Array, stepSize: number, windowSteps: number): number[] {
+  const blocks: number[] = [];
+  let running = 0;
+  for (let s = 0; s < steps.length; s++) {
+    running += steps[s];
+    if (s >= windowSteps) running -= steps[s - windowSteps];
+    if (s >= windowSteps - 1) blocks.push(running / (windowSteps * stepSize));
+  }
+  return blocks;
+}
+
+function gatedMean(blocks: number[], relativeGate: number): { mean: number; gated: number[] } {
+  const absoluteGate = lufsToEnergy(ABSOLUTE_GATE);
+  const aboveAbsolute = blocks.filter(e => e > absoluteGate);
+  if (aboveAbsolute.length === 0) return { mean: 0, gated: [] };
+  const absoluteMean = aboveAbsolute.reduce((a, b) => a + b, 0) / aboveAbsolute.length;
+  const threshold = absoluteMean * Math.pow(10, relativeGate / 10);
+  const gated = aboveAbsolute.filter(e => e > threshold);
+  const mean = gated.length ? gated.reduce((a, b) => a + b, 0) / gated.length : 0;
+  return { mean, gated };
+}
+
+function percentile(sorted: number[], p: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round((p / 100) * (sorted.length - 1))));
+  return sorted[index];
+}
+
+/**
+ * EBU Tech 3342 loudness range: spread between the 10th and 95th percentile of
+ * gated short-term loudness.
+ */
+function loudnessRange(shortTerm: number[]): number {
+  const { gated } = gatedMean(shortTerm, LRA_RELATIVE_GATE);
+  if (gated.length < 2) return 0;
+  const sorted = gated.map(energyToLufs).sort((a, b) => a - b);
+  return percentile(sorted, 95) - percentile(sorted, 10);
+}
+
+/**
+ * Maximum absolute inter-sample value of a channel, estimated by 4x oversampling.
+ * Returned as a linear amplitude (1.0 = 0 dBTP).
+ */
+export function truePeakLinear(data: Float32Array): number {
+  const detector = new TruePeakDetector();
+  let peak = 0;
+  for (let i = 0; i < data.length; i++) {
+    const value = detector.next(data[i]);
+    if (value > peak) peak = value;
+  }
+  return peak;
+}
+
+export function measureTruePeak(channels: Float32Array[]): number {
+  return linearToDb(Math.max(0, ...channels.map(truePeakLinear)));
+}
+
+export function measureIntegratedLoudness(channels: Float32Array[], sampleRate: number): number {
+  const { energies, stepSize } = stepEnergies(channels, sampleRate);
+  return energyToLufs(gatedMean(windowEnergies(energies, stepSize, 4), RELATIVE_GATE).mean);
+}
+
+export function measureLoudness(channels: Float32Array[], sampleRate: number): LoudnessMeasurement {
+  const { energies, stepSize } = stepEnergies(channels, sampleRate);
+  const momentary = windowEnergies(energies, stepSize, 4);
+  const shortTerm = windowEnergies(energies, stepSize, 30);
+
+  let samplePeak = 0;
+  for (const data of channels) {
+    for (let i = 0; i < data.length; i++) {
+      const abs = Math.abs(data[i]);
+      if (abs > samplePeak) samplePeak = abs;
+    }
+  }
+
+  return {
+    integrated: energyToLufs(gatedMean(momentary, RELATIVE_GATE).mean),
+    momentaryMax: energyToLufs(momentary.reduce((max, e) => Math.max(max, e), 0)),
+    shortTermMax: energyToLufs(shortTerm.reduce((max, e) => Math.max(max, e), 0)),
+    loudnessRange: loudnessRange(shortTerm),
+    truePeak: measureTruePeak(channels),
+    samplePeak: linearToDb(samplePeak),
+  };
+}
+
+/**
+ * Momentary and short-term loudness (LUFS) ending at every 100 ms step, for
+ * metering at a playback position. Windows are shorter at the very start.
+ */
+export function loudnessCurve(channels: Float32Array[], sampleRate: number): LoudnessCurve {
+  const { energies, stepSize } = stepEnergies(channels, sampleRate);
+  const curve = (windowSteps: number) => {
+    const values = new Float32Array(energies.length);
+    let running = 0;
+    for (let s = 0; s < energies.length; s++) {
+      running += energies[s];
+      if (s >= windowSteps) running -= energies[s - windowSteps];
+      values[s] = energyToLufs(running / (Math.min(s + 1, windowSteps) * stepSize));
+    }
+    return values;
+  };
+  return { momentary: curve(4), shortTerm: curve(30), step: stepSize / sampleRate };
+}
+
+export function compareDynamics(before: LoudnessMeasurement, after: LoudnessMeasurement): DynamicsReport {
+  const plrBefore = before.truePeak - before.integrated;
+  const plrAfter = after.truePeak - after.integrated;
+  return {
+    plrBefore,
+    plrAfter,
+    lraBefore: before.loudnessRange,
+    lraAfter: after.loudnessRange,
+    retained: plrBefore > 0 ? (plrAfter / plrBefore) * 100 : 100,
+  };
+}
+
+export function getChannels(buffer: AudioBuffer): Float32Array[] {
+  return Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+}
@@ -0,0 +1,57 @@
+import type { Job } from '../../server/job-store';
+import { EngineOptions, MasteringReport, MasteringSettings } from './mastering-engine';
+
+export type ServerJob = Job;
+
+const API_BASE = '/api/jobs';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `Request failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+export function submitJob(wav: Blob, name: string, settings: MasteringSettings, options: EngineOptions): Promise<ServerJob> {
+  const { bassSettings } = settings;
+  const params = new URLSearchParams({
+    name,
+    presetDefinition: JSON.stringify(settings.preset),
+    intensity: String(settings.intensity),
+    impact: bassSettings.impact,
+    punch: bassSettings.punch,
+    weight: bassSettings.weight,
+    clubSafe: String(bassSettings.clubSafe),
+    monoFrequency: String(bassSettings.monoFrequency),
+    phoneSafe: String(bassSettings.phoneSafe),
+    humanize: String(!!options.humanize),
+  });
+  if (options.target) {
+    params.set('targetLufs', String(options.target.lufs));
+    params.set('targetTruePeak', String(options.target.truePeak));
+  }
+  if (bassSettings.shelfGain !== undefined) params.set('bassShelfGain', String(bassSettings.shelfGain));
+  if (bassSettings.lowCut !== undefined) params.set('lowCut', String(bassSettings.lowCut));
+  if (options.limiterRelease !== undefined) params.set('limiterRelease', String(options.limiterRelease));
+  if (options.matchEq) params.set('matchEq', JSON.stringify(options.matchEq));
+
+  return request(`${API_BASE}?${params}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'audio/wav' },
+    body: wav,
+  });
+}
+
+export const getJob = (id: string) => request<ServerJob>(`${API_BASE}/${id}`);
+
+export const cancelJob = (id: string) => request<ServerJob>(`${API_BASE}/${id}`, { method: 'DELETE' });
+
+export const getJobReport = (id: string) => request<MasteringReport>(`${API_BASE}/${id}/analysis`);
+
+export async function getJobMaster(id: string): Promise<Blob> {
+  const response = await fetch(`${API_BASE}/${id}/master`);
+  if (!response.ok) throw new Error(`Master download failed with status ${response.status}`);
+  return response.blob();
+}
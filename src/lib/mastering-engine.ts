@@ -0,0 +1,317 @@
+import { Biquad, BiquadType, designBiquad } from './dsp/biquad';
+import { Compressor } from './dsp/compressor';
+import { GraphicEq, GraphicEqBand } from './dsp/graphic-eq';
+import { Humanizer } from './dsp/humanizer';
+import { GainReductionMeter, GainReductionReport, LimiterParams, summarizeGainReduction, TruePeakLimiter } from './dsp/limiter';
+import { MonoBass } from './dsp/mono-bass';
+import { MultibandCompressor } from './dsp/multiband';
+import { TransientShaper, TransientShaperParams } from './dsp/transient-shaper';
+import { DeliverableStats, measureDeliverableStats } from './deliverable-check';
+import { compareDynamics, DynamicsReport, LoudnessMeasurement, measureLoudness } from './loudness';
+import { Preset, PresetCompressor, presetTarget } from './presets';
+import { measureCrestFactor } from './signal-analysis';
+import { WavMetadata } from './wav-metadata';
+
+export type { Preset } from './presets';
+
+export interface BassSettings {
+  impact: 'Soft' | 'Heavy' | 'Savage';
+  punch: 'Short' | 'Tight' | 'Long';
+  weight: 'Low' | 'Balanced' | 'Deep';
+  clubSafe: boolean;
+  monoFrequency: number; // Hz, crossover used by clubSafe
+  phoneSafe: boolean;
+  shelfGain?: number; // dB at intensity 50, overrides the Impact shelf
+  lowCut?: number; // Hz (0 is off), overrides the phone-safe cut
+}
+
+export interface MasteringSettings {
+  preset: Preset;
+  intensity: number; // 0 to 100
+  bassSettings: BassSettings;
+}
+
+export interface LoudnessTarget {
+  lufs: number; // Integrated
+  truePeak: number; // dBTP ceiling
+}
+
+export const PLATFORM_TARGETS: { id: string; name: string; target: LoudnessTarget }[] = [
+  { id: 'spotify', name: 'Spotify', target: { lufs: -14, truePeak: -1 } },
+  { id: 'apple_music', name: 'Apple Music', target: { lufs: -16, truePeak: -1 } },
+  { id: 'youtube', name: 'YouTube', target: { lufs: -14, truePeak: -1 } },
+  { id: 'soundcloud', name: 'SoundCloud', target: { lufs: -9, truePeak: -1 } },
+  { id: 'ebu_r128', name: 'Broadcast (EBU R128)', target: { lufs: -23, truePeak: -1 } },
+];
+
+export interface EngineOptions {
+  humanize?: boolean;
+  target?: LoudnessTarget; // Overrides the preset's loudness target
+  limiterRelease?: number; // ms, overrides the preset's limiter release
+  matchEq?: GraphicEqBand[]; // Reference-matching curve, applied before the bass engine
+}
+
+export interface MasteringOutput {
+  channels: Float32Array[];
+  crestFactor: { before: number; after: number }; // dB
+  loudness: { before: LoudnessMeasurement; after: LoudnessMeasurement; target: LoudnessTarget };
+  dynamics: DynamicsReport;
+  gainReduction: GainReductionReport;
+  bandGainReduction: BandGainReduction[]; // Multiband compressor, lowest band first; empty without one
+  deliverable: DeliverableStats; // For checks against a distributor spec
+}
+
+export interface BandGainReduction {
+  low: number; // Hz, 0 for the lowest band
+  high: number; // Hz, Nyquist for the highest band
+  gainReduction: GainReductionReport;
+}
+
+// Everything about a finished master except the audio, as served with server-side jobs
+export interface MasteringReport extends Omit<MasteringOutput, 'channels'> {
+  settings: MasteringSettings;
+  options: EngineOptions;
+  sampleRate: number;
+  bitDepth: 16 | 24;
+  metadata: WavMetadata;
+}
+
+// Archival masters may land up to this far below the target rather than hit the limiter
+export const ARCHIVAL_HEADROOM = 2;
+const LIMITER_LOOKAHEAD = 1.5; // ms
+// Frames per processing block; progress is reported once per block
+const BLOCK_SIZE = 16384;
+
+// Low-shelf gain (dB) at intensity 50 for each Impact setting
+export const IMPACT_SHELF_GAIN: Record<BassSettings['impact'], number> = { Soft: 0, Heavy: 3, Savage: 6 };
+// Sub cut (Hz) applied by Phone Safe
+export const PHONE_SAFE_CUT = 40;
+
+// Onset boost and tail gain (dB) at intensity 50 for each 808 Shape
+const PUNCH_SHAPES: Record<BassSettings['punch'], Omit<TransientShaperParams, 'crossover'>> = {
+  Short: { attack: 4, sustain: -8 },
+  Tight: { attack: 3, sustain: -3 },
+  Long: { attack: 1, sustain: 4 },
+};
+
+interface Processor {
+  process(input: Float32Array[], output: Float32Array[]): void;
+}
+
+function filter(type: BiquadType, frequency: number, sampleRate: number, numChannels: number, q?: number, gainDb?: number): Processor {
+  const filters = Array.from({ length: numChannels }, () => new Biquad(designBiquad(type, frequency, sampleRate, q, gainDb)));
+  return {
+    process: (input, output) => filters.forEach((f, ch) => f.process(input[ch], output[ch])),
+  };
+}
+
+// Preset compressor parameters at the given intensity multiplier
+function scaledCompressor({ threshold, ratio, ratioScale, knee, attack, release }: PresetCompressor, intensityMultiplier: number) {
+  return {
+    threshold: threshold * intensityMultiplier,
+    ratio: Math.max(1, ratio + ratioScale * (intensityMultiplier - 1)),
+    knee,
+    attack,
+    release,
+  };
+}
+
+interface Chain {
+  stages: { name: string; processors: Processor[] }[];
+  bands: (Omit<BandGainReduction, 'gainReduction'> & { meter: GainReductionMeter })[];
+}
+
+// The chain up to the make-up gain, grouped into the stages reported as progress.
+// `length` sizes the multiband gain-reduction meters.
+function buildChain(sampleRate: number, numChannels: number, length: number, settings: MasteringSettings, options: EngineOptions): Chain {
+  const { preset, bassSettings } = settings;
+  const intensityMultiplier = settings.intensity / 50; // 0 to 2 (1 is normal)
+
+  const humanizer: Processor[] = options.humanize ? [new Humanizer(sampleRate, numChannels, {
+    deHarshDepth: 3 * intensityMultiplier,
+    expansion: 0.15 * intensityMultiplier,
+    maxBoost: 2 * intensityMultiplier,
+  })] : [];
+
+  const match: Processor[] = options.matchEq?.some(band => band.gain !== 0)
+    ? [new GraphicEq(sampleRate, numChannels, options.matchEq)]
+    : [];
+
+  // Bass Engine (808 Control)
+  const bass: Processor[] = [];
+  const lowCut = bassSettings.lowCut ?? (bassSettings.phoneSafe ? PHONE_SAFE_CUT : 0);
+  if (lowCut > 0) bass.push(filter('highpass', lowCut, sampleRate, numChannels)); // Cut extreme sub
+  const bassGain = bassSettings.shelfGain ?? IMPACT_SHELF_GAIN[bassSettings.impact];
+  const shelfFrequency = bassSettings.weight === 'Deep' ? 60 : 80;
+  bass.push(filter('lowshelf', shelfFrequency, sampleRate, numChannels, undefined, bassGain * intensityMultiplier));
+  const shape = PUNCH_SHAPES[bassSettings.punch];
+  bass.push(new TransientShaper(sampleRate, numChannels, {
+    attack: shape.attack * intensityMultiplier,
+    sustain: shape.sustain * intensityMultiplier,
+    crossover: 150,
+  }));
+  if (bassSettings.clubSafe && numChannels === 2) bass.push(new MonoBass(sampleRate, numChannels, bassSettings.monoFrequency));
+
+  // Preset stages
+  const eq = preset.eq.map(band => filter(band.type, band.frequency, sampleRate, numChannels, band.q, band.gain * intensityMultiplier));
+  const dynamics: Processor[] = [];
+  const bands: Chain['bands'] = [];
+  if (preset.multiband) {
+    const { crossovers } = preset.multiband;
+    const multiband = new MultibandCompressor(sampleRate, numChannels, crossovers,
+      preset.multiband.bands.map(band => scaledCompressor(band, intensityMultiplier)));
+    preset.multiband.bands.forEach((_, b) => bands.push({
+      low: b === 0 ? 0 : crossovers[b - 1],
+      high: b === crossovers.length ? sampleRate / 2 : crossovers[b],
+      meter: new GainReductionMeter(length),
+    }));
+    const gains = bands.map(() => new Float32Array(BLOCK_SIZE));
+    dynamics.push({
+      process: (input, output) => {
+        const blockGains = gains.map(g => g.subarray(0, input[0]?.length ?? 0));
+        multiband.process(input, output, blockGains);
+        bands.forEach((band, b) => band.meter.add(blockGains[b]));
+      },
+    });
+  }
+  if (preset.compressor) dynamics.push(new Compressor(sampleRate, scaledCompressor(preset.compressor, intensityMultiplier)));
+
+  const stages = [
+    { name: 'Humanizing', processors: humanizer },
+    { name: 'Reference Match', processors: match },
+    { name: 'Bass Engine', processors: bass },
+    { name: 'EQ', processors: eq },
+    { name: 'Dynamics', processors: dynamics },
+  ].filter(stage => stage.processors.length > 0);
+  return { stages, bands };
+}
+
+// Archival masters keep the source resolution; lossy or unknown sources get 24-bit
+export function masterBitDepth(preset: Preset, sourceBitDepth?: number): 16 | 24 {
+  return preset.loudness.archival && (!sourceBitDepth || sourceBitDepth > 16) ? 24 : 16;
+}
+
+// Make-up gain (dB) that takes the chain output to the target loudness
+function targetGain(preset: Preset, measured: LoudnessMeasurement, target: LoudnessTarget): number {
+  if (!Number.isFinite(measured.integrated)) return 0;
+  const toTarget = target.lufs - measured.integrated;
+  if (!preset.loudness.archival) return toTarget;
+  // Archival: prefer staying clear of the limiter, but never end up quieter than the floor
+  const toCeiling = target.truePeak - measured.truePeak;
+  return Math.max(toTarget - ARCHIVAL_HEADROOM, Math.min(toTarget, toCeiling));
+}
+
+// Static gain into the look-ahead true-peak limiter, latency compensated, in place
+function gainAndLimit(
+  channels: Float32Array[],
+  sampleRate: number,
+  gainDb: number,
+  params: LimiterParams,
+  onFraction: (fraction: number) => void
+): Float32Array {
+  const length = channels[0]?.length ?? 0;
+  const limiter = new TruePeakLimiter(sampleRate, channels.length, params);
+  const { latency } = limiter;
+  const gain = Math.pow(10, gainDb / 20);
+  const block = channels.map(() => new Float32Array(BLOCK_SIZE));
+  const blockGain = new Float32Array(BLOCK_SIZE);
+  const envelope = new Float32Array(length);
+
+  // Writes trail reads by `latency` frames, so the output can overwrite the input
+  for (let start = 0; start < length + latency; start += BLOCK_SIZE) {
+    const size = Math.min(BLOCK_SIZE, length + latency - start);
+    const io = block.map(b => b.subarray(0, size));
+    channels.forEach((data, ch) => {
+      for (let j = 0; j < size; j++) io[ch][j] = start + j < length ? data[start + j] * gain : 0;
+    });
+    limiter.process(io, io, blockGain);
+    for (let j = Math.max(0, latency - start); j < size; j++) {
+      const t = start + j - latency;
+      if (t >= length) break;
+      channels.forEach((data, ch) => { data[t] = io[ch][j]; });
+      envelope[t] = blockGain[j];
+    }
+    onFraction(Math.min(1, (start + size) / (length + latency)));
+  }
+  return envelope;
+}
+
+/**
+ * Runs the full mastering chain on raw channel data: chain, loudness measurement,
+ * make-up gain and true-peak limiting. `channels` is processed in place and
+ * returned as the master. Progress is reported as a 0-1 fraction.
+ */
+export function masterChannels(
+  channels: Float32Array[],
+  sampleRate: number,
+  settings: MasteringSettings,
+  options: EngineOptions = {},
+  onProgress: (fraction: number, stage: string) => void = () => {}
+): MasteringOutput {
+  const { preset } = settings;
+  const length = channels[0]?.length ?? 0;
+
+  onProgress(0, 'Analyzing');
+  const before = measureLoudness(channels, sampleRate);
+  const crestBefore = measureCrestFactor(channels);
+
+  const { stages, bands } = buildChain(sampleRate, channels.length, length, settings, options);
+  stages.forEach((stage, index) => {
+    for (let start = 0; start < length; start += BLOCK_SIZE) {
+      const io = channels.map(data => data.subarray(start, start + BLOCK_SIZE));
+      for (const processor of stage.processors) processor.process(io, io);
+      const done = (index + Math.min(1, (start + BLOCK_SIZE) / length)) / stages.length;
+      onProgress(0.05 + done * 0.6, stage.name);
+    }
+  });
+
+  // Loudness targeting against the measured chain output
+  const target = options.target ?? presetTarget(preset);
+  onProgress(0.65, 'Measuring Loudness');
+  const chainLoudness = measureLoudness(channels, sampleRate);
+  const envelope = gainAndLimit(channels, sampleRate, targetGain(preset, chainLoudness, target), {
+    ceiling: target.truePeak,
+    lookahead: LIMITER_LOOKAHEAD,
+    release: options.limiterRelease ?? preset.limiter.release,
+  }, fraction => onProgress(0.7 + fraction * 0.25, 'Loudness Targeting & Limiting'));
+
+  onProgress(0.95, 'Validating');
+  const after = measureLoudness(channels, sampleRate);
+  onProgress(1, 'Validating');
+
+  return {
+    channels,
+    crestFactor: { before: crestBefore, after: measureCrestFactor(channels) },
+    loudness: { before, after, target },
+    dynamics: compareDynamics(before, after),
+    gainReduction: summarizeGainReduction(envelope),
+    bandGainReduction: bands.map(({ low, high, meter }) => ({ low, high, gainReduction: meter.report() })),
+    deliverable: measureDeliverableStats(channels, sampleRate),
+  };
+}
+
+/**
+ * Carries the source tags over and records the measured loudness and settings of the master.
+ */
+export function masterMetadata(title: string, source: WavMetadata, loudness: LoudnessMeasurement, settings: MasteringSettings): WavMetadata {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const name = source.info?.title ?? title;
+  return {
+    info: { ...source.info, title: name, software: 'Pro Master' },
+    bext: {
+      description: `${name} (${settings.preset.name} master)`,
+      originator: 'Pro Master',
+      originatorReference: '',
+      originationDate: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+      originationTime: `${pad(now.getHours())}:${pad(now.getMinutes())}:${pad(now.getSeconds())}`,
+      loudnessValue: loudness.integrated,
+      loudnessRange: loudness.loudnessRange,
+      maxTruePeakLevel: loudness.truePeak,
+      maxMomentaryLoudness: loudness.momentaryMax,
+      maxShortTermLoudness: loudness.shortTermMax,
+      codingHistory: '',
+    },
+    mastering: settings,
+  };
+}
@@ -0,0 +1,51 @@
+import { BUILT_IN_PRESETS, parsePreset, Preset } from './presets';
+
+const STORAGE_KEY = 'pro-master:presets';
+
+// User presets saved in this browser; entries that no longer validate are dropped
+export function loadCustomPresets(): Preset[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap(value => {
+      try {
+        return [parsePreset(value)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomPresets(presets: Preset[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+}
+
+export const newPresetId = () => `custom_${crypto.randomUUID()}`;
+
+/**
+ * Reads a preset file. Imports get a fresh id when theirs is already taken, so
+ * a shared preset never replaces a built-in or an existing one.
+ */
+export async function importPresetFile(file: File, existing: Preset[]): Promise<Preset> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not a JSON file`);
+  }
+  const preset = parsePreset(json);
+  const taken = [...BUILT_IN_PRESETS, ...existing].some(p => p.id === preset.id);
+  return taken ? { ...preset, id: newPresetId() } : preset;
+}
+
+export function exportPresetFile(preset: Preset) {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(preset, null, 2)], { type: 'application/json' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${preset.name.replace(/[^\w-]+/g, '_') || 'preset'}.json`;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+}
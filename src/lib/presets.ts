@@ -0,0 +1,268 @@
+import type { BassSettings, LoudnessTarget } from './mastering-engine';
+
+export const PRESET_FORMAT = 'pro-master-preset';
+export const PRESET_VERSION = 2;
+
+export type EqBandType = 'peaking' | 'lowshelf' | 'highshelf' | 'highpass' | 'lowpass';
+
+export interface EqBand {
+  type: EqBandType;
+  frequency: number; // Hz
+  gain: number; // dB at intensity 50, scales with intensity; ignored by pass filters
+  q: number;
+}
+
+export interface PresetCompressor {
+  threshold: number; // dB at intensity 50, scales with intensity
+  ratio: number; // At intensity 50
+  ratioScale: number; // Ratio added per 50 intensity above 50 (removed below)
+  knee: number; // dB
+  attack: number; // ms
+  release: number; // ms
+}
+
+export interface PresetMultiband {
+  crossovers: number[]; // Hz, ascending; 2 or 3 splits
+  bands: PresetCompressor[]; // One more than crossovers, lowest band first
+}
+
+/**
+ * A mastering preset as stored in preset files: the chain stages and their
+ * parameters. Built-ins use the same schema as user presets.
+ */
+export interface Preset {
+  format: typeof PRESET_FORMAT;
+  version: typeof PRESET_VERSION;
+  id: string;
+  name: string;
+  description: string;
+  eq: EqBand[]; // Applied after the bass engine, before the compressor
+  multiband: PresetMultiband | null; // Runs before the full-band compressor
+  compressor: PresetCompressor | null;
+  limiter: {
+    ceiling: number; // dBTP
+    release: number; // ms
+  };
+  loudness: {
+    lufs: number; // Integrated target
+    archival: boolean; // Keep headroom rather than limit, and render 24-bit from hi-res sources
+  };
+  bass: BassSettings; // Loaded into the 808 engine when the preset is picked
+}
+
+export class PresetError extends Error {}
+
+const DEFAULT_BASS: BassSettings = {
+  impact: 'Heavy',
+  punch: 'Tight',
+  weight: 'Deep',
+  clubSafe: true,
+  monoFrequency: 120,
+  phoneSafe: true,
+};
+
+const compressor = (threshold: number, ratio: number, ratioScale: number, attack = 3, release = 250, knee = 30): PresetCompressor => ({
+  threshold, ratio, ratioScale, knee, attack, release,
+});
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  {
+    format: PRESET_FORMAT,
+    version: PRESET_VERSION,
+    id: 'youtube_rap',
+    name: 'YouTube Rap',
+    description: 'Slight bass emphasis',
+    eq: [],
+    multiband: null,
+    compressor: compressor(-16, 4, 1),
+    limiter: { ceiling: -1, release: 80 },
+    loudness: { lufs: -14, archival: false },
+    bass: DEFAULT_BASS,
+  },
+  {
+    format: PRESET_FORMAT,
+    version: PRESET_VERSION,
+    id: 'club_bass',
+    name: 'Club / Car Bass',
+    description: 'Aggressive limiter',
+    eq: [],
+    // Holds the sub steady on its own so kicks don't pump the mids
+    multiband: {
+      crossovers: [120, 2000],
+      bands: [
+        compressor(-12, 8, 2, 5, 250, 12), // Slower attack lets transients through
+        compressor(-14, 3, 1, 10, 150, 12),
+        compressor(-16, 3, 1, 3, 80, 12),
+      ],
+    },
+    compressor: null,
+    limiter: { ceiling: -0.5, release: 50 },
+    loudness: { lufs: -8, archival: false },
+    bass: DEFAULT_BASS,
+  },
+  {
+    format: PRESET_FORMAT,
+    version: PRESET_VERSION,
+    id: 'tiktok_trap',
+    name: 'TikTok Trap',
+    description: 'Mid-forward, punchy',
+    eq: [{ type: 'peaking', frequency: 2500, gain: 2, q: 1 }],
+    multiband: null,
+    compressor: compressor(-14, 4, 0),
+    limiter: { ceiling: -1, release: 60 },
+    loudness: { lufs: -12, archival: false },
+    bass: DEFAULT_BASS,
+  },
+  {
+    format: PRESET_FORMAT,
+    version: PRESET_VERSION,
+    id: 'high_res',
+    name: 'High-Res Archive',
+    description: 'Preserved dynamics',
+    eq: [],
+    multiband: null,
+    compressor: null,
+    limiter: { ceiling: -1, release: 150 },
+    loudness: { lufs: -16, archival: true },
+    bass: DEFAULT_BASS,
+  },
+];
+
+export const findBuiltInPreset = (id: string) => BUILT_IN_PRESETS.find(p => p.id === id);
+
+export const presetTarget = (preset: Preset): LoudnessTarget => ({ lufs: preset.loudness.lufs, truePeak: preset.limiter.ceiling });
+
+/** Loudness targets accepted anywhere one can be set: preset files, the API, the CLI and the app */
+export const TARGET_RANGES: Record<keyof LoudnessTarget, { min: number; max: number }> = {
+  lufs: { min: -30, max: -5 },
+  truePeak: { min: -6, max: 0 },
+};
+
+// Mono bass crossover, Hz
+export const MONO_FREQUENCY_RANGE = { min: 40, max: 400 };
+
+export const clampTarget = ({ lufs, truePeak }: LoudnessTarget): LoudnessTarget => ({
+  lufs: Math.min(TARGET_RANGES.lufs.max, Math.max(TARGET_RANGES.lufs.min, lufs)),
+  truePeak: Math.min(TARGET_RANGES.truePeak.max, Math.max(TARGET_RANGES.truePeak.min, truePeak)),
+});
+
+// Validation
+
+type Json = Record<string, unknown>;
+
+function object(path: string, value: unknown): Json {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new PresetError(`${path} must be an object`);
+  return value as Json;
+}
+
+function number(path: string, value: unknown, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new PresetError(`${path} must be a number`);
+  if (value < min || value > max) throw new PresetError(`${path} must be between ${min} and ${max}`);
+  return value;
+}
+
+function string(path: string, value: unknown, maxLength: number): string {
+  if (typeof value !== 'string') throw new PresetError(`${path} must be a string`);
+  return value.slice(0, maxLength);
+}
+
+function boolean(path: string, value: unknown): boolean {
+  if (typeof value !== 'boolean') throw new PresetError(`${path} must be true or false`);
+  return value;
+}
+
+function oneOf<T extends string>(path: string, value: unknown, allowed: readonly T[]): T {
+  if (!allowed.includes(value as T)) throw new PresetError(`${path} must be one of ${allowed.join(', ')}`);
+  return value as T;
+}
+
+function parseCompressor(path: string, value: unknown): PresetCompressor {
+  const c = object(path, value);
+  return {
+    threshold: number(`${path}.threshold`, c.threshold, -40, 0),
+    ratio: number(`${path}.ratio`, c.ratio, 1, 20),
+    ratioScale: number(`${path}.ratioScale`, c.ratioScale, 0, 10),
+    knee: number(`${path}.knee`, c.knee, 0, 40),
+    attack: number(`${path}.attack`, c.attack, 0.1, 200),
+    release: number(`${path}.release`, c.release, 10, 2000),
+  };
+}
+
+function parseMultiband(value: unknown): PresetMultiband {
+  const multiband = object('multiband', value);
+  if (!Array.isArray(multiband.crossovers) || multiband.crossovers.length < 2 || multiband.crossovers.length > 3) {
+    throw new PresetError('multiband.crossovers must list 2 or 3 frequencies');
+  }
+  const crossovers = multiband.crossovers.map((f, i) => number(`multiband.crossovers[${i}]`, f, 40, 16000));
+  if (crossovers.some((f, i) => i > 0 && f < crossovers[i - 1] * Math.SQRT2)) {
+    throw new PresetError('multiband.crossovers must ascend, at least half an octave apart');
+  }
+  if (!Array.isArray(multiband.bands) || multiband.bands.length !== crossovers.length + 1) {
+    throw new PresetError(`multiband.bands must have ${crossovers.length + 1} entries`);
+  }
+  return { crossovers, bands: multiband.bands.map((band, i) => parseCompressor(`multiband.bands[${i}]`, band)) };
+}
+
+export function parseBassSettings(value: unknown, path = 'bass'): BassSettings {
+  const bass = object(path, value);
+  return {
+    impact: oneOf(`${path}.impact`, bass.impact, ['Soft', 'Heavy', 'Savage'] as const),
+    punch: oneOf(`${path}.punch`, bass.punch, ['Short', 'Tight', 'Long'] as const),
+    weight: oneOf(`${path}.weight`, bass.weight, ['Low', 'Balanced', 'Deep'] as const),
+    clubSafe: boolean(`${path}.clubSafe`, bass.clubSafe),
+    monoFrequency: number(`${path}.monoFrequency`, bass.monoFrequency, MONO_FREQUENCY_RANGE.min, MONO_FREQUENCY_RANGE.max),
+    phoneSafe: boolean(`${path}.phoneSafe`, bass.phoneSafe),
+    ...bass.shelfGain !== undefined && { shelfGain: number(`${path}.shelfGain`, bass.shelfGain, -12, 12) },
+    ...bass.lowCut !== undefined && { lowCut: number(`${path}.lowCut`, bass.lowCut, 0, 200) },
+  };
+}
+
+/**
+ * Validates a preset document (e.g. an imported file) and returns it typed.
+ * Throws a PresetError naming the first invalid field.
+ */
+export function parsePreset(value: unknown): Preset {
+  const json = object('preset', value);
+  if (json.format !== PRESET_FORMAT) throw new PresetError('Not a Pro Master preset file');
+  if (typeof json.version !== 'number' || json.version > PRESET_VERSION) {
+    throw new PresetError(`Unsupported preset version ${json.version} (this build reads up to ${PRESET_VERSION})`);
+  }
+
+  if (!Array.isArray(json.eq)) throw new PresetError('eq must be a list of bands');
+  if (json.eq.length > 8) throw new PresetError('eq supports at most 8 bands');
+  const eq = json.eq.map((value, i): EqBand => {
+    const band = object(`eq[${i}]`, value);
+    return {
+      type: oneOf(`eq[${i}].type`, band.type, ['peaking', 'lowshelf', 'highshelf', 'highpass', 'lowpass'] as const),
+      frequency: number(`eq[${i}].frequency`, band.frequency, 20, 20000),
+      gain: number(`eq[${i}].gain`, band.gain, -12, 12),
+      q: number(`eq[${i}].q`, band.q, 0.1, 10),
+    };
+  });
+
+  const compressor = json.compressor === null ? null : parseCompressor('compressor', json.compressor);
+  // Version 1 files predate the multiband stage
+  const multiband = json.multiband === undefined || json.multiband === null ? null : parseMultiband(json.multiband);
+
+  const limiter = object('limiter', json.limiter);
+  const loudness = object('loudness', json.loudness);
+  return {
+    format: PRESET_FORMAT,
+    version: PRESET_VERSION,
+    id: string('id', json.id, 100) || 'imported',
+    name: string('name', json.name, 60).trim() || 'Untitled preset',
+    description: json.description === undefined ? '' : string('description', json.description, 120),
+    eq,
+    multiband,
+    compressor,
+    limiter: {
+      ceiling: number('limiter.ceiling', limiter.ceiling, TARGET_RANGES.truePeak.min, TARGET_RANGES.truePeak.max),
+      release: number('limiter.release', limiter.release, 10, 1000),
+    },
+    loudness: {
+      lufs: number('loudness.lufs', loudness.lufs, TARGET_RANGES.lufs.min, TARGET_RANGES.lufs.max),
+      archival: boolean('loudness.archival', loudness.archival),
+    },
+    bass: parseBassSettings(json.bass),
+  };
+}
@@ -0,0 +1,159 @@
+import type { AudioAnalysis, ProcessResult } from './audio-processor';
+import type { ListeningResult } from './listening-test';
+import { EngineOptions, MasteringSettings } from './mastering-engine';
+
+export interface SessionRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TrackRecord {
+  id: string; // `${sessionId}:${hash}`
+  sessionId: string;
+  hash: string; // SHA-256 of the original file
+  name: string;
+  file: Blob; // Original upload, kept so the session can be re-rendered
+  analysis: AudioAnalysis | null;
+}
+
+export type MasterReport = Pick<ProcessResult, 'crestFactor' | 'loudness' | 'dynamics' | 'gainReduction' | 'bandGainReduction' | 'deliverable' | 'bitDepth' | 'metadata'>;
+
+export interface MasterRecord {
+  id?: number;
+  sessionId: string;
+  trackHash: string;
+  createdAt: number;
+  settings: MasteringSettings;
+  options: EngineOptions;
+  wav: Blob;
+  report: MasterReport;
+  listening?: ListeningResult[]; // Blind A/B/X results against the original
+}
+
+export interface SessionSummary extends SessionRecord {
+  trackCount: number;
+  masterCount: number;
+}
+
+const DB_NAME = 'pro-master';
+const DB_VERSION = 1;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore('sessions', { keyPath: 'id' });
+      db.createObjectStore('tracks', { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+      const masters = db.createObjectStore('masters', { keyPath: 'id', autoIncrement: true });
+      masters.createIndex('sessionId', 'sessionId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+}
+
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function createSession(name: string): Promise<SessionRecord> {
+  const db = await openDb();
+  const now = Date.now();
+  const session: SessionRecord = { id: crypto.randomUUID(), name, createdAt: now, updatedAt: now };
+  await promisify(db.transaction('sessions', 'readwrite').objectStore('sessions').add(session));
+  return session;
+}
+
+async function touchSession(tx: IDBTransaction, sessionId: string) {
+  const sessions = tx.objectStore('sessions');
+  const session = await promisify(sessions.get(sessionId) as IDBRequest<SessionRecord | undefined>);
+  if (session) sessions.put({ ...session, updatedAt: Date.now() });
+}
+
+export async function saveTrack(track: Omit<TrackRecord, 'id'>): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(['sessions', 'tracks'], 'readwrite');
+  tx.objectStore('tracks').put({ ...track, id: `${track.sessionId}:${track.hash}` });
+  await touchSession(tx, track.sessionId);
+  await transactionDone(tx);
+}
+
+export async function saveMaster(master: Omit<MasterRecord, 'id' | 'createdAt'>): Promise<MasterRecord> {
+  const db = await openDb();
+  const tx = db.transaction(['sessions', 'masters'], 'readwrite');
+  const record: MasterRecord = { ...master, createdAt: Date.now() };
+  record.id = await promisify(tx.objectStore('masters').add(record)) as number;
+  await touchSession(tx, master.sessionId);
+  await transactionDone(tx);
+  return record;
+}
+
+export async function saveListeningResult(masterId: number, result: ListeningResult): Promise<MasterRecord | null> {
+  const db = await openDb();
+  const tx = db.transaction(['sessions', 'masters'], 'readwrite');
+  const masters = tx.objectStore('masters');
+  const master = await promisify(masters.get(masterId) as IDBRequest<MasterRecord | undefined>);
+  if (!master) return null;
+  const updated = { ...master, listening: [...master.listening ?? [], result] };
+  masters.put(updated);
+  await touchSession(tx, master.sessionId);
+  await transactionDone(tx);
+  return updated;
+}
+
+export async function listSessions(): Promise<SessionSummary[]> {
+  const db = await openDb();
+  const tx = db.transaction(['sessions', 'tracks', 'masters'], 'readonly');
+  const sessions = await promisify(tx.objectStore('sessions').getAll() as IDBRequest<SessionRecord[]>);
+  const summaries = await Promise.all(sessions.map(async session => ({
+    ...session,
+    trackCount: await promisify(tx.objectStore('tracks').index('sessionId').count(session.id)),
+    masterCount: await promisify(tx.objectStore('masters').index('sessionId').count(session.id)),
+  })));
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadSession(id: string): Promise<{ session: SessionRecord; tracks: TrackRecord[]; masters: MasterRecord[] } | null> {
+  const db = await openDb();
+  const tx = db.transaction(['sessions', 'tracks', 'masters'], 'readonly');
+  const session = await promisify(tx.objectStore('sessions').get(id) as IDBRequest<SessionRecord | undefined>);
+  if (!session) return null;
+  const [tracks, masters] = await Promise.all([
+    promisify(tx.objectStore('tracks').index('sessionId').getAll(id) as IDBRequest<TrackRecord[]>),
+    promisify(tx.objectStore('masters').index('sessionId').getAll(id) as IDBRequest<MasterRecord[]>),
+  ]);
+  return { session, tracks, masters: masters.sort((a, b) => a.createdAt - b.createdAt) };
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(['sessions', 'tracks', 'masters'], 'readwrite');
+  tx.objectStore('sessions').delete(id);
+  for (const store of ['tracks', 'masters']) {
+    const keys = await promisify(tx.objectStore(store).index('sessionId').getAllKeys(id));
+    for (const key of keys) tx.objectStore(store).delete(key);
+  }
+  await transactionDone(tx);
+}
@@ -0,0 +1,280 @@
+import { Biquad, designBiquad } from './dsp/biquad';
+import { LoudnessMeasurement, linearToDb } from './loudness';
+
+export type BandName = 'sub' | 'bass' | 'lowMid' | 'mid' | 'presence' | 'air' | 'ultra';
+
+export const BANDS: Record<BandName, [number, number]> = {
+  sub: [20, 60],
+  bass: [60, 120],
+  lowMid: [120, 250],
+  mid: [250, 2000],
+  presence: [2000, 5000],
+  air: [8000, 16000],
+  ultra: [16000, 20000],
+};
+
+export interface BandMetrics {
+  level: number; // dB relative to the full-band energy
+  correlation: number; // L/R correlation, -1 to 1
+}
+
+export interface SignalMetrics {
+  sampleRate: number;
+  bands: Record<BandName, BandMetrics>;
+  correlation: number;
+  sideLevel: number; // Side energy relative to mid energy, dB
+  crestFactor: number; // Sample peak over RMS, dB
+  clippedSamples: number;
+  clipRuns: number;
+  longestClipRun: number;
+  harshSpikeRatio: number; // 99th percentile over median of 2-8 kHz block energy, dB
+}
+
+export interface Diagnosis {
+  bassBalance: 'Good' | 'Heavy' | 'Weak';
+  stereoWidth: 'Good' | 'Narrow' | 'Wide';
+  clipping: boolean;
+  aiArtifacts: boolean;
+  issues: string[];
+  fixes: string[];
+}
+
+// Reference spectral balance for the hip-hop presets (band level relative to full band, dB)
+export const GENRE_TARGETS: Partial<Record<BandName, { target: number; tolerance: number }>> = {
+  sub: { target: -6, tolerance: 3 },
+  lowMid: { target: -12, tolerance: 3 },
+  presence: { target: -19, tolerance: 4 },
+};
+
+const CLIP_LEVEL = 0.999;
+const MIN_CLIP_RUN = 3;
+const HARSH_BLOCK_SECONDS = 0.05;
+
+function bandFilters(low: number, high: number, sampleRate: number): Biquad[] {
+  const filters: Biquad[] = [];
+  if (high >= sampleRate / 2) return filters;
+  // Two cascaded Butterworth sections per edge (24 dB/oct) keep neighbouring bands apart
+  for (let i = 0; i < 2; i++) {
+    filters.push(new Biquad(designBiquad('highpass', low, sampleRate)));
+    filters.push(new Biquad(designBiquad('lowpass', high, sampleRate)));
+  }
+  return filters;
+}
+
+function filterCopy(data: Float32Array, filters: Biquad[]): Float32Array {
+  const out = new Float32Array(data);
+  for (const f of filters) f.process(out);
+  return out;
+}
+
+function stereoSums(left: Float32Array, right: Float32Array) {
+  let ll = 0, rr = 0, lr = 0;
+  for (let i = 0; i < left.length; i++) {
+    ll += left[i] * left[i];
+    rr += right[i] * right[i];
+    lr += left[i] * right[i];
+  }
+  return { ll, rr, lr };
+}
+
+function correlationOf({ ll, rr, lr }: { ll: number; rr: number; lr: number }): number {
+  return ll > 0 && rr > 0 ? lr / Math.sqrt(ll * rr) : 1;
+}
+
+function findClipping(channels: Float32Array[]) {
+  let clippedSamples = 0, clipRuns = 0, longestClipRun = 0;
+  for (const data of channels) {
+    let run = 0;
+    for (let i = 0; i <= data.length; i++) {
+      if (i < data.length && Math.abs(data[i]) >= CLIP_LEVEL) {
+        run++;
+        continue;
+      }
+      if (run >= MIN_CLIP_RUN) {
+        clipRuns++;
+        clippedSamples += run;
+        longestClipRun = Math.max(longestClipRun, run);
+      }
+      run = 0;
+    }
+  }
+  return { clippedSamples, clipRuns, longestClipRun };
+}
+
+export function measureCrestFactor(channels: Float32Array[]): number {
+  let peak = 0, sum = 0, count = 0;
+  for (const data of channels) {
+    for (let i = 0; i < data.length; i++) {
+      const abs = Math.abs(data[i]);
+      if (abs > peak) peak = abs;
+      sum += data[i] * data[i];
+    }
+    count += data.length;
+  }
+  const rms = count ? Math.sqrt(sum / count) : 0;
+  return rms > 0 ? linearToDb(peak / rms) : 0;
+}
+
+function harshSpikeRatio(mono: Float32Array, sampleRate: number): number {
+  const band = filterCopy(mono, bandFilters(2000, 8000, sampleRate));
+  const blockSize = Math.round(sampleRate * HARSH_BLOCK_SECONDS);
+  const energies: number[] = [];
+  for (let start = 0; start + blockSize <= band.length; start += blockSize) {
+    let sum = 0;
+    for (let i = start; i < start + blockSize; i++) sum += band[i] * band[i];
+    if (sum > 0) energies.push(sum);
+  }
+  if (energies.length < 20) return 0;
+  energies.sort((a, b) => a - b);
+  const median = energies[Math.floor(energies.length * 0.5)];
+  const p99 = energies[Math.floor(energies.length * 0.99)];
+  return 10 * Math.log10(p99 / median);
+}
+
+export function measureSignal(channels: Float32Array[], sampleRate: number): SignalMetrics {
+  const left = channels[0];
+  const right = channels[1] ?? channels[0];
+
+  const mono = new Float32Array(left.length);
+  let monoEnergy = 0, sideEnergy = 0;
+  for (let i = 0; i < left.length; i++) {
+    const s = (left[i] - right[i]) * 0.5;
+    mono[i] = (left[i] + right[i]) * 0.5;
+    monoEnergy += mono[i] * mono[i];
+    sideEnergy += s * s;
+  }
+
+  const full = stereoSums(left, right);
+  const fullEnergy = full.ll + full.rr;
+
+  const bands = {} as Record<BandName, BandMetrics>;
+  for (const [name, [low, high]] of Object.entries(BANDS) as [BandName, [number, number]][]) {
+    const filters = bandFilters(low, high, sampleRate);
+    if (filters.length === 0) {
+      bands[name] = { level: -Infinity, correlation: 1 };
+      continue;
+    }
+    const bandLeft = filterCopy(left, filters);
+    filters.forEach(f => f.reset());
+    const bandRight = right === left ? bandLeft : filterCopy(right, filters);
+    const sums = stereoSums(bandLeft, bandRight);
+    bands[name] = {
+      level: fullEnergy > 0 ? 10 * Math.log10((sums.ll + sums.rr) / fullEnergy) : -Infinity,
+      correlation: correlationOf(sums),
+    };
+  }
+
+  return {
+    sampleRate,
+    bands,
+    correlation: correlationOf(full),
+    sideLevel: monoEnergy > 0 && sideEnergy > 0 ? 10 * Math.log10(sideEnergy / monoEnergy) : -Infinity,
+    crestFactor: measureCrestFactor(channels),
+    ...findClipping(channels),
+    harshSpikeRatio: harshSpikeRatio(mono, sampleRate),
+  };
+}
+
+interface Rule {
+  applies: (m: SignalMetrics, l: LoudnessMeasurement) => boolean;
+  issue: (m: SignalMetrics, l: LoudnessMeasurement) => string;
+  fix: (m: SignalMetrics, l: LoudnessMeasurement) => string;
+}
+
+const fmt = (value: number) => Math.abs(value).toFixed(1);
+
+function deviation(m: SignalMetrics, band: BandName): number {
+  const target = GENRE_TARGETS[band];
+  return target ? m.bands[band].level - target.target : 0;
+}
+
+function exceeds(m: SignalMetrics, band: BandName, direction: 1 | -1): boolean {
+  const target = GENRE_TARGETS[band];
+  return !!target && Number.isFinite(m.bands[band].level) && deviation(m, band) * direction > target.tolerance;
+}
+
+const lowEndCorrelation = (m: SignalMetrics) => Math.min(m.bands.sub.correlation, m.bands.bass.correlation);
+
+const hasHfCutoff = (m: SignalMetrics) =>
+  m.sampleRate >= 44100 && Number.isFinite(m.bands.air.level) && m.bands.ultra.level - m.bands.air.level < -30;
+
+const RULES: Rule[] = [
+  {
+    applies: (m) => exceeds(m, 'sub', 1),
+    issue: (m) => `Sub band (20-60Hz) is ${fmt(deviation(m, 'sub'))} dB above genre target`,
+    fix: () => 'Dynamic sub EQ to recover headroom',
+  },
+  {
+    applies: (m) => exceeds(m, 'sub', -1),
+    issue: (m) => `Sub band (20-60Hz) is ${fmt(deviation(m, 'sub'))} dB below genre target`,
+    fix: () => 'Low-shelf sub boost via the 808 engine',
+  },
+  {
+    applies: (m) => exceeds(m, 'lowMid', 1),
+    issue: (m) => `Low-mids (120-250Hz) are ${fmt(deviation(m, 'lowMid'))} dB above genre target`,
+    fix: () => 'Clean up low-mids for better vocal separation',
+  },
+  {
+    applies: (m) => exceeds(m, 'presence', -1),
+    issue: (m) => `Presence band (2-5kHz) is ${fmt(deviation(m, 'presence'))} dB below genre target`,
+    fix: () => 'Presence lift to bring vocals forward',
+  },
+  {
+    applies: (m) => exceeds(m, 'presence', 1),
+    issue: (m) => `Presence band (2-5kHz) is ${fmt(deviation(m, 'presence'))} dB above genre target`,
+    fix: () => 'De-harsh the upper mids',
+  },
+  {
+    applies: (m) => lowEndCorrelation(m) < 0.8,
+    issue: (m) => `Low end (<120Hz) L/R correlation is ${lowEndCorrelation(m).toFixed(2)}, not mono compatible`,
+    fix: () => 'Mono bass below 120Hz for club safety',
+  },
+  {
+    applies: (m) => m.correlation < 0.2,
+    issue: (m) => `Stereo correlation is ${m.correlation.toFixed(2)}, phase-weak in mono`,
+    fix: () => 'Stereo depth re-balancing',
+  },
+  {
+    applies: (m) => m.clipRuns > 0,
+    issue: (m) => `${m.clipRuns} clipped run${m.clipRuns === 1 ? '' : 's'} (${m.clippedSamples} samples, longest ${m.longestClipRun})`,
+    fix: () => 'Soft-clip repair before limiting',
+  },
+  {
+    applies: (_, l) => l.truePeak > 0,
+    issue: (_, l) => `Inter-sample clipping detected (+${fmt(l.truePeak)} dBTP)`,
+    fix: () => 'Apply true-peak limiting to fix clipping',
+  },
+  {
+    applies: (m) => m.crestFactor < 8,
+    issue: (m) => `Crest factor is ${fmt(m.crestFactor)} dB, low dynamic contrast`,
+    fix: () => 'Micro-dynamic expansion (restore life)',
+  },
+  {
+    applies: (m) => m.harshSpikeRatio > 15,
+    issue: (m) => `2-8kHz energy spikes ${fmt(m.harshSpikeRatio)} dB above its median`,
+    fix: () => 'Dynamic de-harshing of upper mids',
+  },
+  {
+    applies: (m) => hasHfCutoff(m),
+    issue: (m) => `Hard spectral cutoff above 16kHz (${fmt(m.bands.ultra.level - m.bands.air.level)} dB drop)`,
+    fix: () => 'Humanizer pass to mask generation artifacts',
+  },
+];
+
+export function diagnose(metrics: SignalMetrics, loudness: LoudnessMeasurement): Diagnosis {
+  const findings = RULES.filter(rule => rule.applies(metrics, loudness));
+
+  const lowEnd = deviation(metrics, 'sub');
+  const subTarget = GENRE_TARGETS.sub!;
+  const bassBalance = lowEnd > subTarget.tolerance ? 'Heavy' : lowEnd < -subTarget.tolerance ? 'Weak' : 'Good';
+  const stereoWidth = metrics.sideLevel < -20 ? 'Narrow' : metrics.correlation < 0.2 || metrics.sideLevel > -6 ? 'Wide' : 'Good';
+
+  return {
+    bassBalance,
+    stereoWidth,
+    clipping: metrics.clipRuns > 0 || loudness.truePeak > 0,
+    aiArtifacts: hasHfCutoff(metrics) || metrics.harshSpikeRatio > 15,
+    issues: findings.map(rule => rule.issue(metrics, loudness)),
+    fixes: findings.map(rule => rule.fix(metrics, loudness)),
+  };
+}
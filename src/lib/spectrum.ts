@@ -0,0 +1,106 @@
+import { FFT, hannWindow } from './dsp/fft';
+import type { GraphicEqBand } from './dsp/graphic-eq';
+
+// One-third-octave band centres (base-two series around 1 kHz), 25 Hz to 16 kHz
+export const THIRD_OCTAVE_BANDS = Array.from({ length: 29 }, (_, i) => 1000 * Math.pow(2, (i - 16) / 3));
+
+/**
+ * Long-term average spectrum in one-third-octave bands. Levels are dB relative to
+ * the total power, so tracks at different loudness compare directly.
+ */
+export interface Spectrum {
+  frequencies: number[]; // Band centres, Hz
+  levels: number[]; // dB; -Infinity for empty or above-Nyquist bands
+}
+
+const FFT_SIZE = 8192;
+const HOP_SIZE = FFT_SIZE / 2;
+// Frames quieter than this below the loudest are skipped, so fades and silence don't tilt the average
+const FRAME_GATE = 60; // dB
+// Matching only works where both tracks have energy and the ear is reliable
+const MATCH_RANGE: [number, number] = [30, 16000]; // Hz
+// Broadband offset between the tracks is taken from this range and removed
+const OFFSET_RANGE: [number, number] = [100, 10000]; // Hz
+export const MATCH_MAX_GAIN = 6; // dB
+
+export function measureSpectrum(channels: Float32Array[], sampleRate: number): Spectrum {
+  const length = channels[0]?.length ?? 0;
+  const fft = new FFT(FFT_SIZE);
+  const window = hannWindow(FFT_SIZE);
+  const real = new Float64Array(FFT_SIZE);
+  const imag = new Float64Array(FFT_SIZE);
+  const bins = FFT_SIZE / 2 + 1;
+
+  // Windowed mono sum of one frame into `real`; returns its energy
+  const readFrame = (start: number) => {
+    let energy = 0;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      let sum = 0;
+      for (const data of channels) sum += data[start + i] ?? 0;
+      real[i] = sum / channels.length * window[i];
+      energy += real[i] * real[i];
+    }
+    return energy;
+  };
+
+  // Frame energies first, so the gate is known before any FFT runs
+  const starts: number[] = [];
+  for (let start = 0; start === 0 || start + FFT_SIZE <= length; start += HOP_SIZE) starts.push(start);
+  const energies = starts.map(readFrame);
+  const gate = energies.reduce((max, e) => Math.max(max, e), 0) * Math.pow(10, -FRAME_GATE / 10);
+
+  const average = new Float64Array(bins);
+  starts.forEach((start, f) => {
+    if (energies[f] <= 0 || energies[f] < gate) return;
+    readFrame(start);
+    imag.fill(0);
+    fft.forward(real, imag);
+    for (let k = 0; k < bins; k++) average[k] += real[k] * real[k] + imag[k] * imag[k];
+  });
+
+  const binWidth = sampleRate / FFT_SIZE;
+  const total = average.reduce((sum, p) => sum + p, 0);
+  const levels = THIRD_OCTAVE_BANDS.map(centre => {
+    const low = centre * Math.pow(2, -1 / 6), high = centre * Math.pow(2, 1 / 6);
+    if (high > sampleRate / 2) return -Infinity;
+    let power = 0;
+    // Narrow low bands may fall between bins, so always take the nearest one
+    const first = Math.ceil(low / binWidth), last = Math.max(first, Math.floor(high / binWidth));
+    for (let k = first; k <= last && k < bins; k++) power += average[k];
+    return power > 0 && total > 0 ? 10 * Math.log10(power / total) : -Infinity;
+  });
+
+  return { frequencies: THIRD_OCTAVE_BANDS, levels };
+}
+
+const inRange = (frequency: number, [low, high]: [number, number]) => frequency >= low && frequency <= high;
+
+/**
+ * Per-band difference (dB) the track needs to reach the reference's balance, with
+ * the broadband level offset removed. Bands without a usable level are 0.
+ */
+export function spectralDifference(track: Spectrum, reference: Spectrum): number[] {
+  const raw = track.frequencies.map((frequency, i) => {
+    const difference = reference.levels[i] - track.levels[i];
+    return inRange(frequency, MATCH_RANGE) && Number.isFinite(difference) ? difference : null;
+  });
+  const offsetBands = raw.filter((d, i): d is number => d !== null && inRange(track.frequencies[i], OFFSET_RANGE));
+  const offset = offsetBands.length ? offsetBands.reduce((sum, d) => sum + d, 0) / offsetBands.length : 0;
+  return raw.map(d => d === null ? 0 : d - offset);
+}
+
+/**
+ * Matching EQ from the spectral difference: smoothed across neighbouring bands so
+ * it follows the overall balance rather than individual notes, limited to
+ * ±MATCH_MAX_GAIN and scaled by `amount` (0-1).
+ */
+export function matchingCurve(track: Spectrum, reference: Spectrum, amount = 1): GraphicEqBand[] {
+  let curve = spectralDifference(track, reference);
+  for (let pass = 0; pass < 2; pass++) {
+    curve = curve.map((d, i) => 0.25 * (curve[i - 1] ?? d) + 0.5 * d + 0.25 * (curve[i + 1] ?? d));
+  }
+  return track.frequencies.map((frequency, i) => ({
+    frequency,
+    gain: Math.max(-MATCH_MAX_GAIN, Math.min(MATCH_MAX_GAIN, curve[i])) * amount,
+  }));
+}
@@ -0,0 +1,109 @@
+import type { AudioAnalysis } from './audio-processor';
+import { BassSettings, IMPACT_SHELF_GAIN, MasteringSettings, PHONE_SAFE_CUT } from './mastering-engine';
+import { Preset } from './presets';
+import { GENRE_TARGETS } from './signal-analysis';
+
+// Settings a track sets for itself; anything left out comes from the global profile
+export interface TrackOverrides {
+  preset?: Preset;
+  intensity?: number;
+  bassSettings?: Partial<BassSettings>;
+}
+
+export interface Adaptation {
+  setting: 'Intensity' | 'Bass shelf' | 'Low cut';
+  from: string;
+  to: string;
+  reason: string;
+}
+
+// Crest factor (dB) a mix at the default intensity is expected to have
+const CREST_REFERENCE = 11;
+// Intensity change per dB of crest factor away from the reference
+const INTENSITY_PER_DB = 5;
+const ADAPTED_LOW_CUT = { heavy: 45, weak: 30 }; // Hz
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const formatGain = (db: number) => `${db >= 0 ? '+' : ''}${db.toFixed(1)} dB`;
+const formatCut = (hz: number) => hz > 0 ? `${hz} Hz` : 'Off';
+
+/**
+ * Resolves the settings a track is mastered with: the global profile, then
+ * auto-adapted values derived from the analysis, then the track's own overrides.
+ * Only settings the track doesn't override are adapted.
+ */
+export function resolveTrackSettings(
+  global: MasteringSettings,
+  overrides: TrackOverrides = {},
+  analysis?: AudioAnalysis,
+  autoAdapt = false
+): { settings: MasteringSettings; adaptations: Adaptation[] } {
+  const bass = overrides.bassSettings ?? {};
+  const settings: MasteringSettings = {
+    preset: overrides.preset ?? global.preset,
+    intensity: overrides.intensity ?? global.intensity,
+    bassSettings: { ...global.bassSettings, ...bass },
+  };
+  const adaptations: Adaptation[] = [];
+  // Older saved analyses have no band levels to adapt from
+  if (!autoAdapt || !analysis?.bandLevels) return { settings, adaptations };
+
+  // Dense mixes get less processing, dynamic ones more
+  if (overrides.intensity === undefined && Number.isFinite(analysis.crestFactor)) {
+    const shift = Math.round((analysis.crestFactor - CREST_REFERENCE) * INTENSITY_PER_DB / 5) * 5;
+    const intensity = clamp(settings.intensity + shift, 10, 90);
+    if (intensity !== settings.intensity) {
+      adaptations.push({
+        setting: 'Intensity',
+        from: `${settings.intensity}%`,
+        to: `${intensity}%`,
+        reason: shift < 0
+          ? `Crest factor is ${analysis.crestFactor.toFixed(1)} dB, already dense; less compression avoids pumping`
+          : `Crest factor is ${analysis.crestFactor.toFixed(1)} dB; more control is needed to reach the target`,
+      });
+      settings.intensity = intensity;
+    }
+  }
+
+  // Shelf and low cut close the gap between the sub band and the genre target
+  const sub = GENRE_TARGETS.sub!;
+  const deviation = analysis.bandLevels.sub - sub.target;
+  if (!Number.isFinite(deviation) || Math.abs(deviation) <= sub.tolerance) return { settings, adaptations };
+  const direction = deviation > 0 ? 'above' : 'below';
+
+  if (bass.impact === undefined && bass.shelfGain === undefined) {
+    const current = settings.bassSettings.shelfGain ?? IMPACT_SHELF_GAIN[settings.bassSettings.impact];
+    const shelfGain = clamp(Math.round((current - deviation) * 2) / 2, -6, 9);
+    if (shelfGain !== current) {
+      adaptations.push({
+        setting: 'Bass shelf',
+        from: formatGain(current),
+        to: formatGain(shelfGain),
+        reason: `Sub (20-60 Hz) sits ${Math.abs(deviation).toFixed(1)} dB ${direction} the genre target`,
+      });
+      settings.bassSettings.shelfGain = shelfGain;
+    }
+  }
+
+  if (bass.phoneSafe === undefined && bass.lowCut === undefined) {
+    const current = settings.bassSettings.lowCut ?? (settings.bassSettings.phoneSafe ? PHONE_SAFE_CUT : 0);
+    // A weak sub only lowers an existing cut; it never adds one
+    const lowCut = deviation > 0 ? Math.max(current, ADAPTED_LOW_CUT.heavy) : current > 0 ? Math.min(current, ADAPTED_LOW_CUT.weak) : 0;
+    if (lowCut !== current) {
+      adaptations.push({
+        setting: 'Low cut',
+        from: formatCut(current),
+        to: formatCut(lowCut),
+        reason: deviation > 0
+          ? 'Trims sub rumble that would otherwise drive the limiter'
+          : 'Keeps more of the thin sub while still cutting infrasonics',
+      });
+      settings.bassSettings.lowCut = lowCut;
+    }
+  }
+
+  return { settings, adaptations };
+}
+
+export const hasOverrides = (overrides?: TrackOverrides) =>
+  !!overrides && (overrides.preset !== undefined || overrides.intensity !== undefined || Object.keys(overrides.bassSettings ?? {}).length > 0);
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav } from './audio-utils';
+import { BUILT_IN_PRESETS, Preset } from './presets';
+import type { WavMetadata } from './wav-metadata';
+import { readWav, readWavMetadata } from './wav-reader';
+
+const customPreset: Preset = {
+  ...BUILT_IN_PRESETS[0],
+  id: 'custom_1',
+  name: 'Late Night <Bus> & Co',
+  description: 'A custom preset with its own bass shelf',
+  bass: { ...BUILT_IN_PRESETS[0].bass, shelfGain: 2.5, lowCut: 28 },
+};
+
+const metadata: WavMetadata = {
+  info: {
+    title: 'Nachtlied – Mix 3',
+    artist: 'The Band',
+    album: 'Demos',
+    year: '2026',
+    genre: 'Hip-Hop',
+    comment: 'Approved',
+    track: '4',
+    software: 'Pro Master',
+  },
+  bext: {
+    description: 'Nachtlied mastered with Late Night',
+    originator: 'Pro Master',
+    originatorReference: 'PM0001',
+    originationDate: '2026-10-19',
+    originationTime: '14:30:00',
+    loudnessValue: -14.02,
+    loudnessRange: NaN, // Written as 0x7FFF, "not measured"
+    maxTruePeakLevel: -1.04,
+    maxMomentaryLoudness: NaN,
+    maxShortTermLoudness: -11.5,
+    codingHistory: 'A=PCM,F=48000,W=24,M=stereo,T=Pro Master',
+  },
+  mastering: {
+    preset: customPreset,
+    intensity: 65,
+    bassSettings: { impact: 'Savage', punch: 'Long', weight: 'Deep', clubSafe: true, monoFrequency: 140, phoneSafe: false, shelfGain: 2.5, lowCut: 28 },
+  },
+};
+
+async function encode(metadata: WavMetadata): Promise<ArrayBuffer> {
+  const data = new Float32Array(4800).map((_, i) => 0.25 * Math.sin(i / 10));
+  const buffer = { numberOfChannels: 2, sampleRate: 48000, length: data.length, getChannelData: () => data };
+  return encodeWav(buffer, { bitDepth: 24, metadata }).blob.arrayBuffer();
+}
+
+describe('WAV metadata', () => {
+  it('reads back the INFO, bext and iXML chunks it writes', async () => {
+    expect(readWavMetadata(await encode(metadata))).toEqual(metadata);
+  });
+
+  it('keeps unset bext loudness fields unset', async () => {
+    const { bext } = readWavMetadata(await encode(metadata));
+    expect(bext?.loudnessRange).toBeNaN();
+    expect(bext?.maxMomentaryLoudness).toBeNaN();
+    expect(bext?.loudnessValue).toBe(-14.02);
+  });
+
+  it('leaves the audio readable', async () => {
+    const wav = readWav(await encode(metadata));
+    expect(wav?.format).toMatchObject({ numChannels: 2, sampleRate: 48000, bitDepth: 24 });
+    expect(wav?.channels[0].length).toBe(4800);
+  });
+
+  it('recalls a built-in preset', async () => {
+    const { mastering } = readWavMetadata(await encode({ mastering: { ...metadata.mastering!, preset: BUILT_IN_PRESETS[1] } }));
+    expect(mastering?.preset).toEqual(BUILT_IN_PRESETS[1]);
+  });
+});
@@ -0,0 +1,222 @@
+import type { BassSettings, MasteringSettings } from './mastering-engine';
+import { findBuiltInPreset, parsePreset, Preset } from './presets';
+import type { Id3Tags } from './id3';
+
+export interface BextInfo {
+  description: string;
+  originator: string;
+  originatorReference: string;
+  originationDate: string; // yyyy-mm-dd
+  originationTime: string; // hh:mm:ss
+  loudnessValue: number; // LUFS
+  loudnessRange: number; // LU
+  maxTruePeakLevel: number; // dBTP
+  maxMomentaryLoudness: number; // LUFS
+  maxShortTermLoudness: number; // LUFS
+  codingHistory: string;
+}
+
+export interface WavMetadata {
+  info?: Id3Tags & { software?: string };
+  bext?: BextInfo;
+  mastering?: MasteringSettings;
+}
+
+const INFO_IDS: Record<keyof NonNullable<WavMetadata['info']>, string> = {
+  title: 'INAM',
+  artist: 'IART',
+  album: 'IPRD',
+  year: 'ICRD',
+  genre: 'IGNR',
+  comment: 'ICMT',
+  track: 'ITRK',
+  software: 'ISFT',
+};
+
+// Fixed part of a BWF version 2 bext chunk (EBU Tech 3285)
+const BEXT_FIXED_SIZE = 602;
+const BEXT_VERSION = 2;
+// Loudness fields hold value * 100; 0x7FFF marks "not measured"
+const BEXT_UNSET = 0x7fff;
+
+function chunk(id: string, body: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(8 + body.length + (body.length % 2));
+  const view = new DataView(padded.buffer);
+  for (let i = 0; i < 4; i++) padded[i] = id.charCodeAt(i);
+  view.setUint32(4, body.length, true);
+  padded.set(body, 8);
+  return padded;
+}
+
+function ascii(text: string, length?: number): Uint8Array {
+  const bytes = new Uint8Array(length ?? text.length);
+  for (let i = 0; i < Math.min(bytes.length, text.length); i++) {
+    const code = text.charCodeAt(i);
+    bytes[i] = code < 128 ? code : 0x3f; // '?'
+  }
+  return bytes;
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return new TextDecoder('latin1').decode(bytes.subarray(offset, offset + length)).replace(/\0.*$/s, '').trim();
+}
+
+function loudnessField(value: number): number {
+  return Number.isFinite(value) ? Math.round(value * 100) : BEXT_UNSET;
+}
+
+function readLoudnessField(view: DataView, offset: number): number {
+  const value = view.getInt16(offset, true);
+  return value === BEXT_UNSET ? NaN : value / 100;
+}
+
+function buildInfo(info: NonNullable<WavMetadata['info']>): Uint8Array | null {
+  const encoder = new TextEncoder();
+  const subchunks = (Object.keys(INFO_IDS) as (keyof typeof INFO_IDS)[])
+    .filter(key => info[key])
+    .map(key => chunk(INFO_IDS[key], new Uint8Array([...encoder.encode(info[key]!), 0])));
+  if (subchunks.length === 0) return null;
+
+  const body = new Uint8Array(4 + subchunks.reduce((n, c) => n + c.length, 0));
+  body.set(ascii('INFO'));
+  let offset = 4;
+  for (const c of subchunks) {
+    body.set(c, offset);
+    offset += c.length;
+  }
+  return chunk('LIST', body);
+}
+
+function buildBext(bext: BextInfo): Uint8Array {
+  const history = ascii(bext.codingHistory + '\r\n');
+  const body = new Uint8Array(BEXT_FIXED_SIZE + history.length);
+  const view = new DataView(body.buffer);
+  body.set(ascii(bext.description, 256), 0);
+  body.set(ascii(bext.originator, 32), 256);
+  body.set(ascii(bext.originatorReference, 32), 288);
+  body.set(ascii(bext.originationDate, 10), 320);
+  body.set(ascii(bext.originationTime, 8), 330);
+  // TimeReference (338) and UMID (348) stay zero
+  view.setUint16(346, BEXT_VERSION, true);
+  view.setInt16(412, loudnessField(bext.loudnessValue), true);
+  view.setInt16(414, loudnessField(bext.loudnessRange), true);
+  view.setInt16(416, loudnessField(bext.maxTruePeakLevel), true);
+  view.setInt16(418, loudnessField(bext.maxMomentaryLoudness), true);
+  view.setInt16(420, loudnessField(bext.maxShortTermLoudness), true);
+  body.set(history, BEXT_FIXED_SIZE);
+  return chunk('bext', body);
+}
+
+const xmlEscape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+function buildIxml(settings: MasteringSettings): Uint8Array {
+  const { preset, intensity, bassSettings: bass } = settings;
+  const fields: [string, string | number | boolean][] = [
+    ['PRESET', preset.id],
+    ['PRESET_DEFINITION', JSON.stringify(preset)], // So custom presets can be recalled from the file
+    ['INTENSITY', intensity],
+    ['BASS_IMPACT', bass.impact],
+    ['BASS_PUNCH', bass.punch],
+    ['BASS_WEIGHT', bass.weight],
+    ['CLUB_SAFE', bass.clubSafe],
+    ['MONO_FREQUENCY', bass.monoFrequency],
+    ['PHONE_SAFE', bass.phoneSafe],
+  ];
+  if (bass.shelfGain !== undefined) fields.push(['BASS_SHELF_GAIN', bass.shelfGain]);
+  if (bass.lowCut !== undefined) fields.push(['LOW_CUT', bass.lowCut]);
+  const xml = '<?xml version="1.0" encoding="UTF-8"?>\n<BWFXML>\n  <IXML_VERSION>2.10</IXML_VERSION>\n  <PRO_MASTER>\n'
+    + fields.map(([name, value]) => `    <${name}>${xmlEscape(String(value))}</${name}>\n`).join('')
+    + '  </PRO_MASTER>\n</BWFXML>\n';
+  return chunk('iXML', new TextEncoder().encode(xml));
+}
+
+/**
+ * Serializes metadata as ready-to-write RIFF chunks (LIST/INFO, bext, iXML).
+ */
+export function buildMetadataChunks(metadata: WavMetadata): Uint8Array[] {
+  const chunks: Uint8Array[] = [];
+  if (metadata.bext) chunks.push(buildBext(metadata.bext));
+  if (metadata.mastering) chunks.push(buildIxml(metadata.mastering));
+  const info = metadata.info && buildInfo(metadata.info);
+  if (info) chunks.push(info);
+  return chunks;
+}
+
+function parseInfo(bytes: Uint8Array, offset: number, size: number): WavMetadata['info'] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const info: NonNullable<WavMetadata['info']> = {};
+  const keys = Object.fromEntries(Object.entries(INFO_IDS).map(([key, id]) => [id, key])) as Record<string, keyof typeof INFO_IDS>;
+  let position = offset + 4;
+  while (position + 8 <= offset + size) {
+    const id = readAscii(bytes, position, 4);
+    const length = view.getUint32(position + 4, true);
+    const key = keys[id];
+    if (key) {
+      info[key] = new TextDecoder().decode(bytes.subarray(position + 8, position + 8 + length)).replace(/\0+$/, '');
+    }
+    position += 8 + length + (length % 2);
+  }
+  return info;
+}
+
+function parseBext(bytes: Uint8Array, offset: number, size: number): BextInfo {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  return {
+    description: readAscii(bytes, offset, 256),
+    originator: readAscii(bytes, offset + 256, 32),
+    originatorReference: readAscii(bytes, offset + 288, 32),
+    originationDate: readAscii(bytes, offset + 320, 10),
+    originationTime: readAscii(bytes, offset + 330, 8),
+    loudnessValue: readLoudnessField(view, offset + 412),
+    loudnessRange: readLoudnessField(view, offset + 414),
+    maxTruePeakLevel: readLoudnessField(view, offset + 416),
+    maxMomentaryLoudness: readLoudnessField(view, offset + 418),
+    maxShortTermLoudness: readLoudnessField(view, offset + 420),
+    codingHistory: readAscii(bytes, offset + BEXT_FIXED_SIZE, size - BEXT_FIXED_SIZE),
+  };
+}
+
+function parseIxml(bytes: Uint8Array, offset: number, size: number): MasteringSettings | undefined {
+  const xml = new TextDecoder().decode(bytes.subarray(offset, offset + size));
+  const field = (name: string) => {
+    const match = xml.match(new RegExp(`<${name}>([^<]*)</${name}>`));
+    return match ? match[1].replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&') : undefined;
+  };
+  const id = field('PRESET');
+  if (!id) return undefined;
+  let preset: Preset | undefined;
+  try {
+    const definition = field('PRESET_DEFINITION');
+    preset = definition ? parsePreset(JSON.parse(definition)) : findBuiltInPreset(id);
+  } catch {
+    preset = findBuiltInPreset(id);
+  }
+  if (!preset) return undefined;
+  return {
+    preset,
+    intensity: Number(field('INTENSITY')),
+    bassSettings: {
+      impact: field('BASS_IMPACT') as BassSettings['impact'],
+      punch: field('BASS_PUNCH') as BassSettings['punch'],
+      weight: field('BASS_WEIGHT') as BassSettings['weight'],
+      clubSafe: field('CLUB_SAFE') === 'true',
+      monoFrequency: Number(field('MONO_FREQUENCY')),
+      phoneSafe: field('PHONE_SAFE') === 'true',
+      ...field('BASS_SHELF_GAIN') !== undefined && { shelfGain: Number(field('BASS_SHELF_GAIN')) },
+      ...field('LOW_CUT') !== undefined && { lowCut: Number(field('LOW_CUT')) },
+    },
+  };
+}
+
+/**
+ * Merges one RIFF chunk into `metadata` if it is a metadata chunk we know.
+ */
+export function parseMetadataChunk(id: string, bytes: Uint8Array, offset: number, size: number, metadata: WavMetadata) {
+  if (id === 'LIST' && readAscii(bytes, offset, 4) === 'INFO') {
+    metadata.info = parseInfo(bytes, offset, size);
+  } else if (id === 'bext' && size >= BEXT_FIXED_SIZE) {
+    metadata.bext = parseBext(bytes, offset, size);
+  } else if (id === 'iXML') {
+    metadata.mastering = parseIxml(bytes, offset, size);
+  }
+}
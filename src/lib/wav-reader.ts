@@ -0,0 +1,130 @@
+import { readId3Tags } from './id3';
+import { parseMetadataChunk, type WavMetadata } from './wav-metadata';
+
+export interface WavFormat {
+  formatTag: number; // 1 = PCM, 3 = IEEE float, 0xFFFE = extensible
+  numChannels: number;
+  sampleRate: number;
+  bitDepth: number;
+}
+
+export interface WavFile {
+  format: WavFormat;
+  channels: Float32Array[];
+  metadata: WavMetadata;
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+function fourCC(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+/**
+ * Reads the `fmt ` chunk of a RIFF/WAVE file. Returns null for anything that
+ * isn't a WAV file so callers can fall back to the browser decoder's defaults.
+ */
+export function readWavFormat(data: ArrayBuffer): WavFormat | null {
+  const view = new DataView(data);
+  if (view.byteLength < 12 || fourCC(view, 0) !== 'RIFF' || fourCC(view, 8) !== 'WAVE') return null;
+
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const id = fourCC(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ' && offset + 24 <= view.byteLength) {
+      let formatTag = view.getUint16(offset + 8, true);
+      if (formatTag === WAVE_FORMAT_EXTENSIBLE && size >= 40) {
+        // First two bytes of the SubFormat GUID carry the actual format code
+        formatTag = view.getUint16(offset + 32, true);
+      }
+      return {
+        formatTag,
+        numChannels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true),
+        bitDepth: view.getUint16(offset + 22, true),
+      };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+function readSample(view: DataView, offset: number, format: WavFormat): number {
+  if (format.formatTag === WAVE_FORMAT_IEEE_FLOAT) {
+    return format.bitDepth === 64 ? view.getFloat64(offset, true) : view.getFloat32(offset, true);
+  }
+  // Depths like 12 or 20 bits sit left-justified in a whole-byte container
+  switch (Math.ceil(format.bitDepth / 8)) {
+    case 1: return (view.getUint8(offset) - 128) / 128;
+    case 2: return view.getInt16(offset, true) / 32768;
+    case 3: return ((view.getInt8(offset + 2) << 16) | view.getUint16(offset, true)) / 8388608;
+    default: return view.getInt32(offset, true) / 2147483648;
+  }
+}
+
+/**
+ * Collects the metadata chunks of a WAV file (LIST/INFO, bext, iXML, or an
+ * embedded `id3 ` tag) without decoding the audio.
+ */
+export function readWavMetadata(data: ArrayBuffer): WavMetadata {
+  const view = new DataView(data);
+  const bytes = new Uint8Array(data);
+  const metadata: WavMetadata = {};
+  if (view.byteLength < 12 || fourCC(view, 0) !== 'RIFF' || fourCC(view, 8) !== 'WAVE') return metadata;
+
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const id = fourCC(view, offset);
+    const size = Math.min(view.getUint32(offset + 4, true), view.byteLength - offset - 8);
+    if ((id === 'id3 ' || id === 'ID3 ') && !metadata.info) {
+      metadata.info = readId3Tags(data, offset + 8) ?? undefined;
+    } else {
+      parseMetadataChunk(id, bytes, offset + 8, size, metadata);
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return metadata;
+}
+
+/**
+ * Decodes a PCM or float WAV file together with its metadata. Returns null for
+ * compressed or unknown formats and throws on a malformed fmt or missing data chunk.
+ */
+export function readWav(data: ArrayBuffer): WavFile | null {
+  const format = readWavFormat(data);
+  if (!format || (format.formatTag !== WAVE_FORMAT_PCM && format.formatTag !== WAVE_FORMAT_IEEE_FLOAT)) return null;
+  const validDepth = format.formatTag === WAVE_FORMAT_IEEE_FLOAT
+    ? format.bitDepth === 32 || format.bitDepth === 64
+    : format.bitDepth >= 1 && format.bitDepth <= 32;
+  if (format.numChannels < 1 || format.sampleRate < 1 || !validDepth) throw new Error('Invalid fmt chunk');
+
+  const view = new DataView(data);
+  let channels: Float32Array[] | null = null;
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const size = Math.min(view.getUint32(offset + 4, true), view.byteLength - offset - 8);
+    if (fourCC(view, offset) === 'data') {
+      const bytesPerSample = Math.ceil(format.bitDepth / 8);
+      const frameSize = bytesPerSample * format.numChannels;
+      const length = Math.floor(size / frameSize);
+      channels = Array.from({ length: format.numChannels }, () => new Float32Array(length));
+      for (let i = 0; i < length; i++) {
+        for (let ch = 0; ch < format.numChannels; ch++) {
+          channels[ch][i] = readSample(view, offset + 8 + i * frameSize + ch * bytesPerSample, format);
+        }
+      }
+      break;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  if (!channels) throw new Error('Missing data chunk');
+  return { format, channels, metadata: readWavMetadata(data) };
+}
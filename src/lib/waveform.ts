@@ -0,0 +1,23 @@
+/**
+ * Peak amplitude (0 to 1, full scale) of each of `points` equal slices of the
+ * signal, across all channels. Not normalised, so an original and its master
+ * drawn side by side show the level change.
+ */
+export function waveformPeaks(channels: Float32Array[], points: number): Float32Array {
+  const length = channels[0]?.length ?? 0;
+  const peaks = new Float32Array(points);
+  if (length === 0) return peaks;
+  for (let p = 0; p < points; p++) {
+    const start = Math.floor(p * length / points);
+    const end = Math.max(start + 1, Math.floor((p + 1) * length / points));
+    let peak = 0;
+    for (const data of channels) {
+      for (let i = start; i < end && i < length; i++) {
+        const abs = Math.abs(data[i]);
+        if (abs > peak) peak = abs;
+      }
+    }
+    peaks[p] = Math.min(1, peak);
+  }
+  return peaks;
+}
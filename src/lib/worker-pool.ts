@@ -0,0 +1,57 @@
+/**
+ * Fixed-size pool of dedicated workers. Tasks wait for a free worker; a task
+ * that is aborted while running has its worker terminated and replaced, since
+ * synchronous DSP in the worker cannot be interrupted any other way.
+ */
+export class WorkerPool {
+  private idle: Worker[] = [];
+  private count = 0;
+  private waiting: ((worker: Worker) => void)[] = [];
+
+  constructor(private createWorker: () => Worker, readonly size: number) {}
+
+  private acquire(signal?: AbortSignal): Promise<Worker> {
+    signal?.throwIfAborted();
+    const worker = this.idle.pop();
+    if (worker) return Promise.resolve(worker);
+    if (this.count < this.size) {
+      this.count++;
+      return Promise.resolve(this.createWorker());
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiting.push(resolve);
+      signal?.addEventListener('abort', () => {
+        this.waiting = this.waiting.filter(w => w !== resolve);
+        reject(signal.reason);
+      }, { once: true });
+    });
+  }
+
+  private release(worker: Worker | null) {
+    const next = this.waiting.shift();
+    if (!next) {
+      if (worker) this.idle.push(worker);
+      else this.count--;
+      return;
+    }
+    next(worker ?? this.createWorker());
+  }
+
+  async run<T>(task: (worker: Worker) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const worker = await this.acquire(signal);
+    try {
+      const result = await task(worker);
+      this.release(worker);
+      return result;
+    } catch (error) {
+      if (signal?.aborted) {
+        worker.terminate();
+        this.release(null);
+      } else {
+        this.release(worker);
+      }
+      throw error;
+    }
+  }
+}
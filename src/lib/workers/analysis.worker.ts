@@ -0,0 +1,57 @@
+import type { AudioAnalysis } from '../audio-processor';
+import { DecodedAudio, DecodeError, decodeNative } from '../decoder';
+import { LoudnessCurve, loudnessCurve, measureLoudness } from '../loudness';
+import { BandName, diagnose, measureSignal } from '../signal-analysis';
+import { measureSpectrum, Spectrum } from '../spectrum';
+
+export type AnalysisRequest =
+  | { type: 'decode'; file: Blob } // Native containers only; anything else resolves null
+  | { type: 'analyze' | 'spectrum' | 'loudnessCurve'; channels: Float32Array[]; sampleRate: number }; // Channels are transferred
+
+export interface AnalysisResults {
+  decode: DecodedAudio | null;
+  analyze: AudioAnalysis;
+  spectrum: Spectrum;
+  loudnessCurve: LoudnessCurve;
+}
+
+export type AnalysisMessage =
+  | { type: 'done'; result: AnalysisResults[AnalysisRequest['type']] }
+  | { type: 'error'; message: string; decodeError: boolean };
+
+const post = (message: AnalysisMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+function analyze(channels: Float32Array[], sampleRate: number): AudioAnalysis {
+  const loudness = measureLoudness(channels, sampleRate);
+  const metrics = measureSignal(channels, sampleRate);
+  return {
+    lufs: loudness.integrated,
+    shortTermMax: loudness.shortTermMax,
+    momentaryMax: loudness.momentaryMax,
+    truePeak: loudness.truePeak,
+    dynamicRange: loudness.loudnessRange,
+    crestFactor: metrics.crestFactor,
+    bandLevels: Object.fromEntries(Object.entries(metrics.bands).map(([band, m]) => [band, m.level])) as Record<BandName, number>,
+    spectrum: measureSpectrum(channels, sampleRate),
+    ...diagnose(metrics, loudness),
+  };
+}
+
+self.onmessage = async (event: MessageEvent<AnalysisRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'decode') {
+      const decoded = decodeNative(await request.file.arrayBuffer());
+      post({ type: 'done', result: decoded }, decoded?.channels.map(data => data.buffer) ?? []);
+    } else if (request.type === 'analyze') {
+      post({ type: 'done', result: analyze(request.channels, request.sampleRate) });
+    } else if (request.type === 'spectrum') {
+      post({ type: 'done', result: measureSpectrum(request.channels, request.sampleRate) });
+    } else {
+      const curve = loudnessCurve(request.channels, request.sampleRate);
+      post({ type: 'done', result: curve }, [curve.momentary.buffer, curve.shortTerm.buffer]);
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error), decodeError: error instanceof DecodeError });
+  }
+};
@@ -0,0 +1,48 @@
+import { encodeWav } from '../audio-utils';
+import { EngineOptions, masterChannels, masterMetadata, MasteringOutput, MasteringSettings } from '../mastering-engine';
+import { WavMetadata } from '../wav-metadata';
+
+export interface MasteringRequest {
+  channels: Float32Array[]; // Transferred; the worker masters them in place
+  sampleRate: number;
+  settings: MasteringSettings;
+  options: EngineOptions;
+  bitDepth: 16 | 24;
+  title: string;
+  sourceMetadata: WavMetadata;
+}
+
+export interface MasteringResponse extends MasteringOutput {
+  wav: Blob;
+  metadata: WavMetadata;
+}
+
+export type MasteringMessage =
+  | { type: 'progress'; fraction: number; stage: string }
+  | { type: 'done'; result: MasteringResponse }
+  | { type: 'error'; message: string };
+
+const post = (message: MasteringMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = (event: MessageEvent<MasteringRequest>) => {
+  const { channels, sampleRate, settings, options, bitDepth, title, sourceMetadata } = event.data;
+  try {
+    // Encoding takes the last 5% of the bar
+    const output = masterChannels(channels, sampleRate, settings, options, (fraction, stage) => {
+      post({ type: 'progress', fraction: fraction * 0.95, stage });
+    });
+    post({ type: 'progress', fraction: 0.95, stage: 'Encoding' });
+
+    const metadata = masterMetadata(title, sourceMetadata, output.loudness.after, settings);
+    const { blob } = encodeWav({
+      numberOfChannels: output.channels.length,
+      sampleRate,
+      length: output.channels[0]?.length ?? 0,
+      getChannelData: ch => output.channels[ch],
+    }, { bitDepth, metadata });
+
+    post({ type: 'done', result: { ...output, wav: blob, metadata } }, output.channels.map(data => data.buffer));
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
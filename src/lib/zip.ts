@@ -0,0 +1,101 @@
+export interface ZipEntry {
+  name: string; // Path inside the archive, '/' separated
+  data: Blob | string; // Strings are stored as UTF-8
+  modified?: Date;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const VERSION = 20; // 2.0: stored entries, directories
+const UTF8_NAMES = 0x0800;
+// Without ZIP64 records, sizes and offsets are 32-bit and there are at most 65535 entries
+const MAX_SIZE = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+const CRC32_TABLE = new Uint32Array(256);
+for (let i = 0; i < 256; i++) {
+  let crc = i;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+  CRC32_TABLE[i] = crc;
+}
+
+/** CRC-32 (IEEE 802.3), as used by ZIP and PNG. Pass the previous result to continue a running checksum. */
+export function crc32(data: Uint8Array, previous = 0): number {
+  let crc = ~previous;
+  for (let i = 0; i < data.length; i++) crc = (crc >>> 8) ^ CRC32_TABLE[(crc ^ data[i]) & 0xff];
+  return ~crc >>> 0;
+}
+
+// MS-DOS date and time, local time, 2-second resolution; the format starts in 1980
+function dosDateTime(date: Date): { time: number; day: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    day: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Packs the entries into an uncompressed ("stored") ZIP archive. Audio barely
+ * compresses, so this trades nothing for a writer small enough to keep in the
+ * app. Blob entries are read one at a time for their checksum and then
+ * referenced, not copied, by the result.
+ */
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  if (entries.length > MAX_ENTRIES) throw new Error(`A ZIP file can hold at most ${MAX_ENTRIES} files`);
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const body = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const bytes = body instanceof Blob ? new Uint8Array(await body.arrayBuffer()) : body;
+    const crc = crc32(bytes);
+    const size = bytes.length;
+    if (size > MAX_SIZE || offset + 30 + name.length + size > MAX_SIZE) throw new Error('The ZIP file would exceed 4 GB');
+    const { time, day } = dosDateTime(entry.modified ?? new Date());
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_HEADER, true);
+    local.setUint16(4, VERSION, true);
+    local.setUint16(6, UTF8_NAMES, true);
+    local.setUint16(8, 0, true); // Stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, day, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    parts.push(local.buffer, name, body);
+
+    const header = new DataView(new ArrayBuffer(46 + name.length));
+    header.setUint32(0, CENTRAL_HEADER, true);
+    header.setUint16(4, VERSION, true);
+    header.setUint16(6, VERSION, true);
+    header.setUint16(8, UTF8_NAMES, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, day, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, size, true);
+    header.setUint32(24, size, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    const headerBytes = new Uint8Array(header.buffer);
+    headerBytes.set(name, 46);
+    central.push(headerBytes);
+    offset += 30 + name.length + size;
+  }
+
+  const centralSize = central.reduce((sum, header) => sum + header.length, 0);
+  if (offset + centralSize > MAX_SIZE) throw new Error('The ZIP file would exceed 4 GB');
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+}